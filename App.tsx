@@ -1,46 +1,105 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { STREAMERS } from './constants';
-import { Platform, AppSettings } from './types';
-import useLocalStorage from './hooks/useLocalStorage';
+import { STREAMERS, DEFAULT_SETTINGS, DEFAULT_CHAT_DOCK, DEFAULT_CHAT_OVERLAY, DEFAULT_SHORTCUTS } from './constants';
+import { PlatformId, AppSettings, StreamerConfig, LayoutMode, LayoutDefinition, SessionSnapshot, MultiStreamState, StreamState, PlayerState, ShortcutBindings, PaletteCommand, WorkspacePreset, ChatWallLayout, ChatDockSettings, ChatDockPosition, ChatOverlaySettings } from './types';
+import useLocalStorage, { suspendPersistence, resumePersistence } from './hooks/useLocalStorage';
+import { STORAGE_KEYS, sanitizePresets } from './utils/storage';
+import { pickFailoverPlatform } from './utils/failover';
+import useLiveStatus from './hooks/useLiveStatus';
+import useKeyboardShortcuts from './hooks/useKeyboardShortcuts';
+import useElementSize from './hooks/useElementSize';
+import { computeLayout, computeSpotlight, touchesEdge, getLayoutDefinition, getNextLayoutId, DEFAULT_LAYOUT_ID } from './layout';
+import { buildShareUrl, readSharedSession, clearShareHash } from './utils/shareLink';
+import { buildPaletteCommands, pushRecentCommand } from './utils/paletteCommands';
+import { DEFAULT_PRESET_ID, createDefaultPreset, createPresetId, movePreset } from './utils/presets';
 import StreamSlot from './components/StreamSlot';
 import MultiChat from './components/MultiChat';
 import ControlDock from './components/ControlDock';
-
-// Layout modes: 'columns' (3 vertical side-by-side) or 'grid' (1 top, 2 bottom)
-type LayoutMode = 'columns' | 'grid' | 'pyramid';
+import RosterEditor from './components/RosterEditor';
+import SharedSessionPrompt from './components/SharedSessionPrompt';
+import ConfigTransferModal from './components/ConfigTransferModal';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import CommandPalette from './components/CommandPalette';
+import LayoutEditor from './components/LayoutEditor';
+import ChatWall from './components/ChatWall';
 
 const App = () => {
-  const defaultState: Record<string, Platform> = STREAMERS.reduce((acc, s) => ({
+  // Streamer roster (STREAMERS is only the factory default)
+  const [roster, setRoster] = useLocalStorage<StreamerConfig[]>(STORAGE_KEYS.roster, STREAMERS);
+
+  const defaultState: MultiStreamState = roster.reduce((acc, s) => ({
     ...acc,
-    [s.id]: s.defaultPlatform
+    [s.id]: { platform: s.defaultPlatform, isMuted: true, volume: 100 }
   }), {});
 
-  const [streamerStates, setStreamerStates] = useLocalStorage<Record<string, Platform>>('multi_viictorn_v7', defaultState);
-  const [layoutMode, setLayoutMode] = useLocalStorage<LayoutMode>('layout_mode_v3', 'columns');
+  const [streamerStates, setStreamerStates] = useLocalStorage<MultiStreamState>(STORAGE_KEYS.streamerStates, defaultState);
+
+  // Platform currently playing for each streamer (what chat and share links care about)
+  const activePlatforms = useMemo(() => roster.reduce((acc, s) => ({
+    ...acc,
+    [s.id]: streamerStates[s.id]?.platform || s.defaultPlatform
+  }), {} as Record<string, PlatformId>), [roster, streamerStates]);
+  const [layoutMode, setLayoutMode] = useLocalStorage<LayoutMode>(STORAGE_KEYS.layoutMode, DEFAULT_LAYOUT_ID);
+
+  // Layouts built in the layout editor, selectable next to the built-in ones
+  const [customLayouts, setCustomLayouts] = useLocalStorage<LayoutDefinition[]>(STORAGE_KEYS.customLayouts, []);
   
   // Track visibility
-  const [visibleStreamers, setVisibleStreamers] = useLocalStorage<string[]>('visible_streamers_v2', STREAMERS.map(s => s.id));
+  const [visibleStreamers, setVisibleStreamers] = useLocalStorage<string[]>(STORAGE_KEYS.visibleStreamers, roster.map(s => s.id));
 
   // Track Order of Streamers (IDs)
-  const [streamerOrder, setStreamerOrder] = useLocalStorage<string[]>('streamer_order_v1', STREAMERS.map(s => s.id));
+  const [streamerOrder, setStreamerOrder] = useLocalStorage<string[]>(STORAGE_KEYS.streamerOrder, roster.map(s => s.id));
 
   // Settings Store
-  const [settings, setSettings] = useLocalStorage<AppSettings>('multi_settings_v3', {
-      performanceMode: false,
-      cinemaMode: false,
-      streamsVisible: true,
-      chatWidth: 420
-  });
+  const [settings, setSettings] = useLocalStorage<AppSettings>(STORAGE_KEYS.settings, DEFAULT_SETTINGS);
+
+  // Streamer whose audio is soloed (every other player muted)
+  const [audioFocusId, setAudioFocusId] = useLocalStorage<string | null>(STORAGE_KEYS.audioFocus, null);
+
+  // Keyboard bindings (remappable from the "?" overlay)
+  const [shortcuts, setShortcuts] = useLocalStorage<ShortcutBindings>(STORAGE_KEYS.shortcuts, DEFAULT_SHORTCUTS);
+
+  // Named workspace presets (the built-in "Padrão" preset is not stored)
+  const [presets, setPresets] = useLocalStorage<WorkspacePreset[]>(STORAGE_KEYS.presets, []);
+
+  // Chat wall column widths and collapsed columns, keyed by streamer ID
+  const [chatWall, setChatWall] = useLocalStorage<ChatWallLayout>(STORAGE_KEYS.chatWall, { widths: {}, collapsed: [] });
+
+  // Chat panel placement stays on this device (not part of presets or exports)
+  const [chatDock, setChatDock] = useLocalStorage<ChatDockSettings>(STORAGE_KEYS.chatDock, DEFAULT_CHAT_DOCK);
+
+  // Per-slot chat overlays, keyed by streamer ID (device-local as well)
+  const [chatOverlays, setChatOverlays] = useLocalStorage<Record<string, ChatOverlaySettings>>(STORAGE_KEYS.chatOverlays, {});
+
+  // Command palette history, most recent first
+  const [recentCommands, setRecentCommands] = useLocalStorage<string[]>(STORAGE_KEYS.recentCommands, []);
 
   // State for functionality
   const [isChatOpen, setIsChatOpen] = useState(true);
+  const [chatTab, setChatTab] = useState('all'); // Streamer ID, or 'all' for the merged chat
+  const [chatOverrides, setChatOverrides] = useState<Record<string, PlatformId>>({});
   const [isMobile, setIsMobile] = useState(false);
   const [expandedStreamerId, setExpandedStreamerId] = useState<string | null>(null);
   const [globalRefreshKey, setGlobalRefreshKey] = useState(0);
+  const [isRosterEditorOpen, setIsRosterEditorOpen] = useState(false);
+  const [isConfigTransferOpen, setIsConfigTransferOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState(false);
+  const [editingLayout, setEditingLayout] = useState<LayoutDefinition | null>(null);
+
+  // Live playback state reported by each mounted slot (not persisted)
+  const [playerStates, setPlayerStates] = useState<Record<string, PlayerState>>({});
+
+  // Shared Session State (from a #session= link)
+  const [pendingSharedSession, setPendingSharedSession] = useState<SessionSnapshot | null>(null);
+  const [isTemporarySession, setIsTemporarySession] = useState(false);
   
   // Drag and Drop State
   const [isDragging, setIsDragging] = useState(false);
+
+  // Measured stream area, fed to the layout engine
+  const [gridRef, gridSize] = useElementSize<HTMLDivElement>();
   const dragItem = useRef<number | null>(null);
   const dragOverItem = useRef<number | null>(null);
   
@@ -81,16 +140,92 @@ const App = () => {
     };
   }, [hasEntered]);
 
+  // Detect a shared session link once on load
+  useEffect(() => {
+    const shared = readSharedSession(window.location.hash, roster, customLayouts);
+    if (shared) {
+        setPendingSharedSession(shared);
+        clearShareHash();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const handleEnter = () => {
       setHasEntered(true);
       sessionStorage.setItem('has_entered_session', 'true');
   };
 
-  const handlePlatformChange = (streamerId: string, platform: Platform) => {
-    setStreamerStates(prev => ({
-      ...prev,
-      [streamerId]: platform
-    }));
+  const updateStreamState = (streamerId: string, patch: Partial<StreamState>) => {
+    setStreamerStates(prev => {
+      const current = prev[streamerId] || defaultState[streamerId];
+      return { ...prev, [streamerId]: { ...current, ...patch } };
+    });
+  };
+
+  const handlePlatformChange = (streamerId: string, platform: PlatformId) => {
+    updateStreamState(streamerId, { platform });
+  };
+
+  const handleToggleMute = (streamerId: string) => {
+    updateStreamState(streamerId, { isMuted: !(streamerStates[streamerId]?.isMuted ?? true) });
+    // Manual mixing means no single streamer is soloed anymore
+    setAudioFocusId(null);
+  };
+
+  // Unmute exactly one streamer and mute the rest; soloing the focused one again releases focus
+  const handleSoloAudio = (streamerId: string) => {
+    if (audioFocusId === streamerId) {
+      setAudioFocusId(null);
+      return;
+    }
+    setStreamerStates(prev => roster.reduce((acc, s) => ({
+      ...acc,
+      [s.id]: { ...(prev[s.id] || defaultState[s.id]), isMuted: s.id !== streamerId }
+    }), {} as MultiStreamState));
+    setAudioFocusId(streamerId);
+  };
+
+  const handleVolumeChange = (streamerId: string, volume: number) => {
+    updateStreamState(streamerId, { volume });
+  };
+
+  // --- Live Status & Failover ---
+
+  const liveStatuses = useLiveStatus(roster);
+
+  // Opt-in: move slots off platforms confirmed offline to one that is live
+  useEffect(() => {
+    if (!settings.autoFailover) return;
+    roster.forEach(s => {
+      const target = pickFailoverPlatform(s, activePlatforms[s.id], liveStatuses[s.id], settings.failoverPriority);
+      if (target) handlePlatformChange(s.id, target);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveStatuses, settings.autoFailover]);
+
+  const handlePlayerStateChange = (streamerId: string, state: PlayerState | null) => {
+    setPlayerStates(prev => {
+      if (state === null) {
+        const { [streamerId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return prev[streamerId] === state ? prev : { ...prev, [streamerId]: state };
+    });
+  };
+
+  // Ducking: while the expanded player is audible and not stopped, the others drop to duckLevel
+  const expandedState = expandedStreamerId ? streamerStates[expandedStreamerId] : undefined;
+  const expandedPlayerState = expandedStreamerId ? playerStates[expandedStreamerId] : undefined;
+  const isExpandedSilent = expandedPlayerState === 'paused' || expandedPlayerState === 'ended'
+    || expandedPlayerState === 'offline' || expandedPlayerState === 'error';
+  const isDucking = settings.duckOthers && Boolean(expandedState && !expandedState.isMuted) && !isExpandedSilent;
+
+  // Moves audio focus to the next visible player, in display order
+  const handleCycleAudioFocus = () => {
+    const candidates = streamerOrder.filter(id => visibleStreamers.includes(id));
+    if (candidates.length === 0) return;
+    const next = candidates[(candidates.indexOf(audioFocusId ?? '') + 1) % candidates.length];
+    handleSoloAudio(next);
   };
 
   // UPDATED: Toggle Chat logic to conflict-resolve with Cinema Mode
@@ -106,11 +241,26 @@ const App = () => {
   };
 
   const toggleLayout = () => {
-    setLayoutMode(prev => {
-      if (prev === 'columns') return 'grid';
-      if (prev === 'grid') return 'pyramid';
-      return 'columns';
-    });
+    setLayoutMode(prev => getNextLayoutId(prev, customLayouts));
+  };
+
+  const openLayoutEditor = (layout: LayoutDefinition | null) => {
+    setEditingLayout(layout);
+    setIsLayoutEditorOpen(true);
+  };
+
+  const handleSaveLayout = (layout: LayoutDefinition) => {
+    setCustomLayouts(prev => prev.some(l => l.id === layout.id)
+      ? prev.map(l => l.id === layout.id ? layout : l)
+      : [...prev, layout]);
+    setLayoutMode(layout.id);
+    setIsLayoutEditorOpen(false);
+  };
+
+  const handleDeleteLayout = (id: LayoutMode) => {
+    setCustomLayouts(prev => prev.filter(l => l.id !== id));
+    setLayoutMode(prev => prev === id ? DEFAULT_LAYOUT_ID : prev);
+    setIsLayoutEditorOpen(false);
   };
 
   const toggleExpand = (id: string) => {
@@ -127,25 +277,80 @@ const App = () => {
       });
   };
 
+  // --- Workspace Presets ---
+
+  const capturePreset = (id: string, name: string): WorkspacePreset => ({
+      id,
+      name,
+      visibleStreamers,
+      streamerOrder,
+      platforms: activePlatforms,
+      layoutMode,
+      isChatOpen,
+      chatWidth: settings.chatWidth,
+      chatTab,
+      cinemaMode: settings.cinemaMode,
+      performanceMode: settings.performanceMode,
+  });
+
+  const applyPreset = (preset: WorkspacePreset) => {
+      // Re-check against the current roster and layouts; the preset may predate edits to either
+      const [safe] = sanitizePresets([preset], roster, customLayouts);
+      if (!safe) return;
+      setVisibleStreamers(safe.visibleStreamers);
+      setStreamerOrder(safe.streamerOrder);
+      setStreamerStates(prev => Object.entries(safe.platforms).reduce((acc, [id, platform]) => ({
+          ...acc,
+          [id]: { isMuted: true, volume: 100, ...acc[id], platform }
+      }), prev));
+      setLayoutMode(safe.layoutMode);
+      setExpandedStreamerId(null);
+      setIsChatOpen(safe.isChatOpen && !safe.cinemaMode);
+      setChatTab(safe.chatTab);
+      setSettings(prev => ({ ...prev, chatWidth: safe.chatWidth, cinemaMode: safe.cinemaMode, performanceMode: safe.performanceMode }));
+  };
+
+  const handleApplyPreset = (id: string) => {
+      const preset = id === DEFAULT_PRESET_ID ? createDefaultPreset(roster) : presets.find(p => p.id === id);
+      if (preset) applyPreset(preset);
+  };
+
+  const handleCreatePreset = (name: string) => {
+      setPresets(prev => [...prev, capturePreset(createPresetId(prev.map(p => p.id)), name)]);
+  };
+
+  const handleOverwritePreset = (id: string) => {
+      setPresets(prev => prev.map(p => p.id === id ? capturePreset(p.id, p.name) : p));
+  };
+
+  const handleRenamePreset = (id: string, name: string) => {
+      setPresets(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleMovePreset = (id: string, direction: 'up' | 'down') => {
+      setPresets(prev => movePreset(prev, id, direction));
+  };
+
+  const handleDeletePreset = (id: string) => {
+      setPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  // Audio, failover and spotlight preferences are not part of the layout and survive a reset
   const handleResetLayout = () => {
-      setSettings(prev => ({ 
-          ...prev, 
-          chatWidth: 420, 
-          performanceMode: false, 
-          cinemaMode: false, 
-          streamsVisible: true 
-        }));
-      setLayoutMode('columns');
-      setStreamerStates(defaultState);
-      setVisibleStreamers(STREAMERS.map(s => s.id));
-      setStreamerOrder(STREAMERS.map(s => s.id));
-      setIsChatOpen(true);
+      setSettings(prev => ({ ...prev, streamsVisible: DEFAULT_SETTINGS.streamsVisible }));
+      applyPreset(createDefaultPreset(roster));
   };
 
   const handleRefreshAll = () => {
     setGlobalRefreshKey(prev => prev + 1);
   };
 
+  // Embeds that lost their connection rarely recover on their own
+  useEffect(() => {
+    window.addEventListener('online', handleRefreshAll);
+    return () => window.removeEventListener('online', handleRefreshAll);
+  }, []);
+
   const handleSettingsUpdate = (newSettings: Partial<AppSettings>) => {
       // If turning ON Cinema Mode, force Chat CLOSE
       if (newSettings.cinemaMode === true) {
@@ -154,6 +359,93 @@ const App = () => {
       setSettings(prev => ({ ...prev, ...newSettings }));
   };
 
+  // Apply an edited roster and keep order, visibility and platforms consistent with it
+  const handleRosterSave = (nextRoster: StreamerConfig[]) => {
+      const nextIds = nextRoster.map(s => s.id);
+      const addedIds = nextIds.filter(id => !roster.some(s => s.id === id));
+
+      setRoster(nextRoster);
+      setStreamerOrder(prev => [
+          ...prev.filter(id => nextIds.includes(id)),
+          ...nextIds.filter(id => !prev.includes(id))
+      ]);
+      setVisibleStreamers(prev => [...prev.filter(id => nextIds.includes(id)), ...addedIds]);
+      setStreamerStates(prev => nextRoster.reduce((acc, s) => {
+          const current = prev[s.id];
+          // Fall back to the default platform when the current one lost its channel
+          return {
+              ...acc,
+              [s.id]: {
+                  platform: current && s.channels[current.platform] ? current.platform : s.defaultPlatform,
+                  isMuted: current ? current.isMuted : true,
+                  volume: current ? current.volume : 100,
+              }
+          };
+      }, {} as MultiStreamState));
+      setPresets(prev => sanitizePresets(prev, nextRoster, customLayouts));
+      if (expandedStreamerId && !nextIds.includes(expandedStreamerId)) {
+          setExpandedStreamerId(null);
+      }
+      if (audioFocusId && !nextIds.includes(audioFocusId)) {
+          setAudioFocusId(null);
+      }
+      setIsRosterEditorOpen(false);
+  };
+
+  // --- Shared Sessions ---
+
+  const applySession = (session: SessionSnapshot) => {
+      setVisibleStreamers(session.visibleStreamers);
+      setStreamerOrder(session.streamerOrder);
+      setStreamerStates(prev => Object.entries(session.streamerStates).reduce((acc, [id, platform]) => ({
+          ...acc,
+          [id]: { isMuted: true, volume: 100, ...acc[id], platform }
+      }), prev));
+      setLayoutMode(session.layoutMode);
+      setExpandedStreamerId(session.expandedStreamerId);
+      handleSettingsUpdate(session.settings);
+  };
+
+  const handleApplySharedSession = (mode: 'visit' | 'save') => {
+      if (!pendingSharedSession) return;
+      // "Just this visit" keeps every change in memory until the user decides to save
+      if (mode === 'visit') {
+          suspendPersistence();
+          setIsTemporarySession(true);
+      }
+      applySession(pendingSharedSession);
+      setPendingSharedSession(null);
+  };
+
+  const handleKeepTemporarySession = () => {
+      resumePersistence();
+      setIsTemporarySession(false);
+  };
+
+  // Leaving a temporary session simply reloads the stored setup
+  const handleLeaveTemporarySession = () => {
+      window.location.reload();
+  };
+
+  const handleCopyShareLink = async () => {
+      const url = buildShareUrl({
+          visibleStreamers,
+          streamerOrder,
+          streamerStates: activePlatforms,
+          layoutMode,
+          expandedStreamerId,
+          settings,
+      });
+      try {
+          await navigator.clipboard.writeText(url);
+          return true;
+      } catch (error) {
+          // Clipboard API can be blocked (non-secure context); let the user copy manually
+          window.prompt('Copie o link da sessão:', url);
+          return false;
+      }
+  };
+
   // --- Reordering Logic ---
   
   // 1. Button-based reordering (Works perfectly on mobile/menu)
@@ -172,6 +464,20 @@ const App = () => {
     setStreamerOrder(newOrder);
   };
 
+  // Chat wall columns only show visible streamers, so they swap with the nearest visible neighbour
+  const handleMoveVisibleStreamer = (id: string, direction: 'up' | 'down') => {
+    const visible = streamerOrder.filter(s => visibleStreamers.includes(s));
+    const currentIndex = visible.indexOf(id);
+    const neighbour = visible[direction === 'up' ? currentIndex - 1 : currentIndex + 1];
+    if (currentIndex === -1 || !neighbour) return;
+
+    const newOrder = [...streamerOrder];
+    const a = newOrder.indexOf(id);
+    const b = newOrder.indexOf(neighbour);
+    [newOrder[a], newOrder[b]] = [newOrder[b], newOrder[a]];
+    setStreamerOrder(newOrder);
+  };
+
   // 2. Drag and Drop handlers (Desktop mainly)
   const onDragStart = (e: React.DragEvent<HTMLDivElement>, position: number) => {
     dragItem.current = position;
@@ -204,6 +510,114 @@ const App = () => {
     setIsDragging(false);
   };
 
+  // --- Keyboard Shortcuts ---
+
+  // Toggles the expanded player, otherwise silences every player
+  const handleMuteShortcut = () => {
+    if (expandedStreamerId) {
+      handleToggleMute(expandedStreamerId);
+      return;
+    }
+    setStreamerStates(prev => roster.reduce((acc, s) => ({
+      ...acc,
+      [s.id]: { ...(prev[s.id] || defaultState[s.id]), isMuted: true }
+    }), {} as MultiStreamState));
+    setAudioFocusId(null);
+  };
+
+  // Number keys follow the on-screen order of the visible players
+  const toggleExpandAt = (position: number) => () => {
+    const id = streamerOrder.filter(s => visibleStreamers.includes(s))[position];
+    if (id) toggleExpand(id);
+  };
+
+  useKeyboardShortcuts(shortcuts, {
+    slot1: toggleExpandAt(0),
+    slot2: toggleExpandAt(1),
+    slot3: toggleExpandAt(2),
+    slot4: toggleExpandAt(3),
+    slot5: toggleExpandAt(4),
+    slot6: toggleExpandAt(5),
+    slot7: toggleExpandAt(6),
+    slot8: toggleExpandAt(7),
+    slot9: toggleExpandAt(8),
+    toggleMute: handleMuteShortcut,
+    soloAudio: handleCycleAudioFocus,
+    toggleChat,
+    cycleLayout: toggleLayout,
+    refreshAll: handleRefreshAll,
+    cinemaMode: () => handleSettingsUpdate({ cinemaMode: !settings.cinemaMode }),
+    performanceMode: () => handleSettingsUpdate({ performanceMode: !settings.performanceMode }),
+    showShortcuts: () => setIsShortcutsOpen(true),
+  }, hasEntered && !isShortcutsOpen && !isPaletteOpen && !isRosterEditorOpen && !isConfigTransferOpen && !isLayoutEditorOpen && !pendingSharedSession);
+
+  // --- Command Palette ---
+
+  // Ctrl/Cmd+K works everywhere, including text fields
+  useEffect(() => {
+    if (!hasEntered) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasEntered]);
+
+  const handleOpenChat = (streamerId: string, platform: PlatformId) => {
+    if (!isChatOpen) toggleChat();
+    setChatTab(streamerId);
+    setChatOverrides(prev => ({ ...prev, [streamerId]: platform }));
+  };
+
+  const handleChatOverlayChange = (streamerId: string, patch: Partial<ChatOverlaySettings>) => {
+    setChatOverlays(prev => ({ ...prev, [streamerId]: { ...DEFAULT_CHAT_OVERLAY, ...prev[streamerId], ...patch } }));
+  };
+
+  const paletteCommands = buildPaletteCommands({
+    roster,
+    streamerStates,
+    visibleStreamers,
+    expandedStreamerId,
+    audioFocusId,
+    layoutMode,
+    customLayouts,
+    presets,
+    settings,
+    isChatOpen,
+    chatPosition: chatDock.position,
+    chatOverlays,
+    onSetLayout: setLayoutMode,
+    onUpdateSettings: handleSettingsUpdate,
+    onToggleChat: toggleChat,
+    onSetChatPosition: (position) => setChatDock(prev => ({ ...prev, position })),
+    onRefreshAll: handleRefreshAll,
+    onResetLayout: handleResetLayout,
+    onResetOrder: () => setStreamerOrder(roster.map(s => s.id)),
+    onCopyShareLink: handleCopyShareLink,
+    onOpenRosterEditor: () => setIsRosterEditorOpen(true),
+    onOpenConfigTransfer: () => setIsConfigTransferOpen(true),
+    onOpenShortcuts: () => setIsShortcutsOpen(true),
+    onNewLayout: () => openLayoutEditor(null),
+    onApplyPreset: handleApplyPreset,
+    onCycleAudioFocus: handleCycleAudioFocus,
+    onToggleExpand: toggleExpand,
+    onToggleVisibility: toggleStreamerVisibility,
+    onToggleMute: handleToggleMute,
+    onSoloAudio: handleSoloAudio,
+    onPlatformChange: handlePlatformChange,
+    onOpenChat: handleOpenChat,
+    onToggleChatOverlay: (id) => handleChatOverlayChange(id, { enabled: !chatOverlays[id]?.enabled }),
+  });
+
+  const handleRunCommand = (command: PaletteCommand) => {
+    setIsPaletteOpen(false);
+    setRecentCommands(prev => pushRecentCommand(prev, command.id));
+    command.run();
+  };
+
   // --- WELCOME SCREEN COMPONENT ---
   if (!hasEntered) {
     return (
@@ -246,7 +660,7 @@ const App = () => {
                         className="flex flex-col gap-4 items-center w-full"
                     >
                         <div className="flex gap-4 mb-8">
-                            {STREAMERS.map((s, i) => (
+                            {roster.map((s, i) => (
                                 <div key={s.id} className="flex flex-col items-center gap-2">
                                     <div className={`w-3 h-3 rounded-full shadow-[0_0_10px]`} style={{ backgroundColor: s.color, boxShadow: `0 0 15px ${s.color}` }} />
                                     <span className="text-[9px] uppercase font-bold text-neutral-500 tracking-wider">{s.name}</span>
@@ -300,54 +714,40 @@ const App = () => {
 
   // Determine Layout Widths
   const areStreamsVisible = settings.streamsVisible;
+  // With the video hidden on wide screens every chat gets its own column instead of the sidebar
+  const isChatWall = !areStreamsVisible && !isMobile;
   
   // FIXED: Logic for Mobile Chat Width. If Mobile, use Full Width (window.innerWidth), otherwise use settings or 0.
-  const currentChatWidth = (!areStreamsVisible) 
+  // Mobile always uses the full-width panel on the right
+  const chatPosition: ChatDockPosition = isMobile ? 'right' : chatDock.position;
+  const chatWidth = Math.min(chatDock.maxWidth, Math.max(chatDock.minWidth, settings.chatWidth));
+  const currentChatWidth = isChatWall
+      ? 0
+      : (!areStreamsVisible) 
       ? (typeof window !== 'undefined' ? window.innerWidth : 1000) 
       : (isChatOpen 
-          ? (isMobile ? (typeof window !== 'undefined' ? window.innerWidth : 400) : settings.chatWidth) 
+          ? (isMobile ? (typeof window !== 'undefined' ? window.innerWidth : 400) : chatWidth) 
           : 0);
 
+  // The floating window sits over the grid, the docked positions push it aside
   const contentStyle = {
-      marginRight: !isMobile ? `${currentChatWidth}px` : 0
+      marginLeft: !isMobile && chatPosition === 'left' ? `${currentChatWidth}px` : 0,
+      marginRight: !isMobile && chatPosition === 'right' ? `${currentChatWidth}px` : 0,
+      marginBottom: !isMobile && chatPosition === 'bottom' && currentChatWidth > 0 ? `${chatDock.height}px` : 0,
   };
   
-  // Calculate active layout
-  const visibleCount = visibleStreamers.length;
-  
-  const getGridClasses = (indexInVisible: number, totalVisible: number) => {
-      if (expandedStreamerId) return 'flex-1 w-full h-full';
-
-      // 1 Visible: Full Screen
-      if (totalVisible === 1) return 'flex-1 w-full h-full';
-      
-      // 2 Visible: Split (Clean 50/50 split)
-      if (totalVisible === 2) {
-          return 'flex-1 border-b md:border-b-0 md:border-r border-white/5 last:border-0';
-      }
-
-      // 3 Visible (Standard Grid or Columns)
-      if (totalVisible >= 3) {
-          if (layoutMode === 'grid' || layoutMode === 'pyramid') {
-            if (indexInVisible === 0) return 'col-span-2 row-span-1 border-b border-white/5'; 
-            else if (indexInVisible === 1) return 'col-span-1 row-span-1 border-r border-white/5'; 
-            else return 'col-span-1 row-span-1'; 
-          } else {
-             return 'flex-1 relative border-b border-white/5 md:border-b-0 md:border-r border-white/5 last:border-0';
-          }
-      }
-      return 'flex-1';
-  };
+  // Calculate active layout: one rect per visible slot, in display order
+  const visibleOrder = streamerOrder.filter(id => visibleStreamers.includes(id));
+  const visibleCount = visibleOrder.length;
+  const layoutRects = computeLayout(
+    getLayoutDefinition(layoutMode, customLayouts) ?? getLayoutDefinition(DEFAULT_LAYOUT_ID),
+    visibleCount,
+    gridSize
+  );
 
-  const getContainerGridClass = () => {
-    if (layoutMode === 'grid' && !expandedStreamerId && visibleCount >= 3) {
-        return 'grid grid-cols-2 grid-rows-[60%_40%]'; // Focus Mode
-    }
-    if (layoutMode === 'pyramid' && !expandedStreamerId && visibleCount >= 3) {
-        return 'grid grid-cols-2 grid-rows-2'; // Equal Height Pyramid
-    }
-    return 'flex flex-col md:flex-row'; // Columns or others
-  };
+  // Spotlight: the expanded slot leads, the other visible slots become the thumbnail strip
+  const thumbnailOrder = visibleOrder.filter(id => id !== expandedStreamerId);
+  const spotlightRects = expandedStreamerId ? computeSpotlight(thumbnailOrder.length, settings.spotlightStrip, gridSize) : null;
 
   return (
     <div className="h-[100dvh] bg-transparent text-white font-sans selection:bg-white/20 overflow-hidden flex flex-col">
@@ -376,7 +776,8 @@ const App = () => {
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     exit={{ opacity: 0 }}
-                    className={`w-full h-full ${getContainerGridClass()}`}
+                    ref={gridRef}
+                    className="relative w-full h-full"
                 >
                     {visibleCount === 0 ? (
                         <div className="flex flex-col items-center justify-center w-full h-full text-neutral-500">
@@ -386,22 +787,20 @@ const App = () => {
                     ) : (
                         // We iterate through streamerOrder to respect the user's custom order
                         streamerOrder.map((streamerId, index) => {
-                            const streamer = STREAMERS.find(s => s.id === streamerId);
+                            const streamer = roster.find(s => s.id === streamerId);
                             if (!streamer) return null;
 
                             // Only render if visible or if it's the expanded one (force show)
                             if (!visibleStreamers.includes(streamer.id) && expandedStreamerId !== streamer.id) return null;
 
                             const isThisExpanded = expandedStreamerId === streamer.id;
-                            const isOtherExpanded = expandedStreamerId !== null && !isThisExpanded;
-
-                            if (isOtherExpanded) return null;
+                            const isThumbnail = expandedStreamerId !== null && !isThisExpanded;
 
-                            // Calculate index relative to *visible* items for grid styling
-                            const currentVisibleOrder = streamerOrder.filter(id => visibleStreamers.includes(id));
-                            const indexInVisible = currentVisibleOrder.indexOf(streamer.id);
-                            
-                            const gridClasses = getGridClasses(indexInVisible, visibleCount);
+                            // Slots only move between cells (DOM order stays put), so no player reloads on a swap
+                            const rect = (spotlightRects
+                              ? spotlightRects[isThisExpanded ? 0 : thumbnailOrder.indexOf(streamer.id) + 1]
+                              : layoutRects[visibleOrder.indexOf(streamer.id)]) || { x: 0, y: 0, w: 1, h: 1 };
+                            const edge = touchesEdge(rect);
 
                             return (
                                 <motion.div 
@@ -414,12 +813,16 @@ const App = () => {
                                     onDragOver={onDragOver}
                                     onDrop={onDrop}
                                     
-                                    className={`relative overflow-hidden bg-black ${gridClasses} ${settings.cinemaMode ? 'border-none' : ''}`}
+                                    className={`absolute overflow-hidden bg-black border-white/5 ${edge.right ? '' : 'border-r'} ${edge.bottom ? '' : 'border-b'} ${settings.cinemaMode ? 'border-none' : ''}`}
                                     initial={{ opacity: 0 }}
                                     animate={{ opacity: 1 }}
                                     exit={{ opacity: 0, scale: 0.9 }}
                                     transition={{ duration: 0.3 }}
                                     style={{
+                                        left: `${rect.x * 100}%`,
+                                        top: `${rect.y * 100}%`,
+                                        width: `${rect.w * 100}%`,
+                                        height: `${rect.h * 100}%`,
                                         // Highlight drop target or currently dragged item
                                         opacity: isDragging && dragItem.current === index ? 0.4 : 1,
                                         zIndex: isDragging && dragItem.current === index ? 50 : 1,
@@ -428,15 +831,27 @@ const App = () => {
                                 >
                                     <StreamSlot 
                                         streamer={streamer}
-                                        currentPlatform={streamerStates[streamer.id]}
+                                        currentPlatform={activePlatforms[streamer.id]}
+                                        isMuted={streamerStates[streamer.id]?.isMuted ?? true}
+                                        onToggleMute={() => handleToggleMute(streamer.id)}
+                                        isAudioFocused={audioFocusId === streamer.id}
+                                        onSoloAudio={() => handleSoloAudio(streamer.id)}
+                                        volume={streamerStates[streamer.id]?.volume ?? 100}
+                                        volumeGain={isDucking && !isThisExpanded ? settings.duckLevel / 100 : 1}
+                                        onVolumeChange={(v) => handleVolumeChange(streamer.id, v)}
+                                        liveStatuses={liveStatuses[streamer.id]}
+                                        onPlayerStateChange={(state) => handlePlayerStateChange(streamer.id, state)}
                                         onPlatformChange={(p) => handlePlatformChange(streamer.id, p)}
                                         isExpanded={isThisExpanded}
                                         onToggleExpand={() => toggleExpand(streamer.id)}
-                                        isOtherExpanded={false}
+                                        isThumbnail={isThumbnail}
                                         isCinemaMode={settings.cinemaMode}
                                         refreshKeyTrigger={globalRefreshKey}
                                         onHide={() => toggleStreamerVisibility(streamer.id)}
                                         isDragging={isDragging} 
+                                        chatPlatform={chatOverrides[streamer.id] || activePlatforms[streamer.id]}
+                                        chatOverlay={chatOverlays[streamer.id] || DEFAULT_CHAT_OVERLAY}
+                                        onChatOverlayChange={(patch) => handleChatOverlayChange(streamer.id, patch)}
                                     />
                                 </motion.div>
                             );
@@ -446,7 +861,18 @@ const App = () => {
             )}
           </AnimatePresence>
           
-          {!areStreamsVisible && (
+          {isChatWall && (
+              <ChatWall
+                  streamers={visibleOrder.map(id => roster.find(s => s.id === id)).filter(Boolean)}
+                  chatPlatforms={roster.reduce((acc, s) => ({ ...acc, [s.id]: chatOverrides[s.id] || activePlatforms[s.id] }), {} as Record<string, PlatformId>)}
+                  onChatPlatformChange={(id, p) => setChatOverrides(prev => ({ ...prev, [id]: p }))}
+                  onMoveColumn={handleMoveVisibleStreamer}
+                  layout={chatWall}
+                  onLayoutChange={setChatWall}
+              />
+          )}
+
+          {!areStreamsVisible && !isChatWall && (
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                   <div className="flex flex-col items-center opacity-20">
                       <span className="text-4xl font-black uppercase tracking-widest">Modo Chat</span>
@@ -461,28 +887,136 @@ const App = () => {
             onUpdateSettings={handleSettingsUpdate}
             layoutMode={layoutMode}
             onToggleLayout={toggleLayout}
+            customLayouts={customLayouts}
+            onSelectLayout={setLayoutMode}
+            onEditLayout={openLayoutEditor}
+            presets={presets}
+            onApplyPreset={handleApplyPreset}
+            onCreatePreset={handleCreatePreset}
+            onOverwritePreset={handleOverwritePreset}
+            onRenamePreset={handleRenamePreset}
+            onMovePreset={handleMovePreset}
+            onDeletePreset={handleDeletePreset}
             isChatOpen={isChatOpen}
             onToggleChat={toggleChat}
+            chatDock={chatDock}
+            onChatDockChange={(patch) => setChatDock(prev => ({ ...prev, ...patch }))}
             onResetLayout={handleResetLayout}
             onRefreshAll={handleRefreshAll}
+            onCopyShareLink={handleCopyShareLink}
             isMobile={isMobile}
+            streamers={roster}
+            onOpenRosterEditor={() => setIsRosterEditorOpen(true)}
+            onOpenConfigTransfer={() => setIsConfigTransferOpen(true)}
+            onOpenShortcuts={() => setIsShortcutsOpen(true)}
+            onOpenCommandPalette={() => setIsPaletteOpen(true)}
             visibleStreamers={visibleStreamers}
             onToggleStreamerVisibility={toggleStreamerVisibility}
-            onResetOrder={() => setStreamerOrder(STREAMERS.map(s => s.id))}
+            onResetOrder={() => setStreamerOrder(roster.map(s => s.id))}
             streamerOrder={streamerOrder}
             onMoveStreamer={handleMoveStreamer}
+            audioFocusId={audioFocusId}
+            onSoloAudio={handleSoloAudio}
+            onCycleAudioFocus={handleCycleAudioFocus}
+            streamerStates={streamerStates}
+            onToggleMute={handleToggleMute}
+            onVolumeChange={handleVolumeChange}
         />
 
         {/* Chat Sidebar */}
         <MultiChat 
-            activeStreamers={streamerStates}
-            isOpen={isChatOpen || !areStreamsVisible}
+            streamers={roster}
+            activeStreamers={activePlatforms}
+            isOpen={!isChatWall && (isChatOpen || !areStreamsVisible)}
             onClose={toggleChat}
             width={currentChatWidth}
             onResize={(w) => setSettings(s => ({ ...s, chatWidth: w }))}
             disableResize={!areStreamsVisible}
+            position={chatPosition}
+            dock={chatDock}
+            onDockChange={(patch) => setChatDock(prev => ({ ...prev, ...patch }))}
+            selectedStreamerId={chatTab}
+            onSelectStreamer={setChatTab}
+            chatOverrides={chatOverrides}
+            onChatPlatformChange={(id, p) => setChatOverrides(prev => ({ ...prev, [id]: p }))}
+        />
+
+        {/* Roster Editor Modal */}
+        <RosterEditor
+            isOpen={isRosterEditorOpen}
+            roster={roster}
+            onSave={handleRosterSave}
+            onClose={() => setIsRosterEditorOpen(false)}
         />
 
+        {/* Configuration Import / Export */}
+        <ConfigTransferModal
+            isOpen={isConfigTransferOpen}
+            onClose={() => setIsConfigTransferOpen(false)}
+        />
+
+        {/* Keyboard Shortcuts Cheat Sheet */}
+        <ShortcutsOverlay
+            isOpen={isShortcutsOpen}
+            bindings={shortcuts}
+            onChange={setShortcuts}
+            onClose={() => setIsShortcutsOpen(false)}
+        />
+
+        {/* Custom Layout Editor */}
+        <LayoutEditor
+            isOpen={isLayoutEditorOpen}
+            layout={editingLayout}
+            slotNames={visibleOrder.map(id => roster.find(s => s.id === id)?.name || id)}
+            takenIds={customLayouts.map(l => l.id)}
+            onSave={handleSaveLayout}
+            onDelete={handleDeleteLayout}
+            onClose={() => setIsLayoutEditorOpen(false)}
+        />
+
+        {/* Command Palette (Ctrl/Cmd+K) */}
+        <CommandPalette
+            isOpen={isPaletteOpen}
+            commands={paletteCommands}
+            recentIds={recentCommands}
+            onRun={handleRunCommand}
+            onClose={() => setIsPaletteOpen(false)}
+        />
+
+        {/* Shared Session Prompt */}
+        <SharedSessionPrompt
+            session={pendingSharedSession}
+            streamers={roster}
+            onApply={handleApplySharedSession}
+            onDismiss={() => setPendingSharedSession(null)}
+        />
+
+        {/* Temporary Session Banner */}
+        <AnimatePresence>
+            {isTemporarySession && (
+                <motion.div
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -20 }}
+                    className="fixed top-3 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-3 pl-4 pr-1.5 py-1.5 rounded-full bg-black/80 backdrop-blur-xl border border-white/10 shadow-[0_10px_40px_rgba(0,0,0,0.8)]"
+                >
+                    <span className="text-[9px] font-bold uppercase tracking-widest text-neutral-400">Sessão Compartilhada · Temporária</span>
+                    <button
+                        onClick={handleKeepTemporarySession}
+                        className="px-3 py-1 text-[9px] uppercase font-bold tracking-wider bg-white text-black rounded-full hover:scale-105 active:scale-95 transition-transform"
+                    >
+                        Salvar
+                    </button>
+                    <button
+                        onClick={handleLeaveTemporarySession}
+                        className="px-3 py-1 text-[9px] uppercase font-bold tracking-wider bg-white/10 text-white rounded-full hover:bg-white/20 transition-colors"
+                    >
+                        Sair
+                    </button>
+                </motion.div>
+            )}
+        </AnimatePresence>
+
       </main>
     </div>
   );
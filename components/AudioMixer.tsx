@@ -0,0 +1,137 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AppSettings, MultiStreamState, StreamerConfig } from '../types';
+import { getPlatformAdapter } from '../platforms';
+
+interface AudioMixerProps {
+  streamers: StreamerConfig[];
+  streamerOrder: string[];
+  visibleStreamers: string[];
+  streamerStates: MultiStreamState;
+  audioFocusId: string | null;
+  onToggleMute: (id: string) => void;
+  onSoloAudio: (id: string) => void;
+  onVolumeChange: (id: string, volume: number) => void;
+  settings: AppSettings;
+  onUpdateSettings: (newSettings: Partial<AppSettings>) => void;
+}
+
+const AudioMixer: React.FC<AudioMixerProps> = ({
+  streamers,
+  streamerOrder,
+  visibleStreamers,
+  streamerStates,
+  audioFocusId,
+  onToggleMute,
+  onSoloAudio,
+  onVolumeChange,
+  settings,
+  onUpdateSettings
+}) => {
+  const channels = streamerOrder
+    .filter(id => visibleStreamers.includes(id))
+    .map(id => streamers.find(s => s.id === id))
+    .filter((s): s is StreamerConfig => Boolean(s));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="absolute right-12 top-0 bg-black/90 border border-white/10 rounded-xl p-3 flex flex-col gap-2 w-64 shadow-2xl z-50 backdrop-blur-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-1 border-b border-white/5 pb-2">
+        <span className="text-[10px] uppercase font-bold text-neutral-500">Mixer de Áudio</span>
+      </div>
+
+      {channels.length === 0 && (
+        <span className="text-xs text-neutral-500">Nenhum player visível.</span>
+      )}
+
+      <div className="flex flex-col gap-1">
+        {channels.map(s => {
+          const state = streamerStates[s.id];
+          const isMuted = state?.isMuted ?? true;
+          const volume = state?.volume ?? 100;
+          const adapter = getPlatformAdapter(state?.platform || s.defaultPlatform);
+          // Volume needs a player API; other embeds only support mute (via reload)
+          const hasVolumeControl = Boolean(adapter?.setVolume || adapter?.renderMode === 'native');
+          const hasMuteControl = adapter?.hasMuteControl !== false;
+
+          return (
+            <div key={s.id} className="flex flex-col gap-1.5 p-2 rounded bg-white/5">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 min-w-0">
+                  <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: s.color }} />
+                  <span className={`text-xs font-medium truncate ${isMuted ? 'text-neutral-500' : 'text-white'}`}>{s.name}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onToggleMute(s.id)}
+                    disabled={!hasMuteControl}
+                    className={`px-1.5 py-0.5 rounded text-[9px] uppercase font-bold tracking-wider transition-colors disabled:opacity-30 disabled:pointer-events-none ${isMuted ? 'bg-red-500/20 text-red-300' : 'text-neutral-400 hover:text-white hover:bg-white/10'}`}
+                    title={!hasMuteControl ? 'Som controlado pelo próprio player' : isMuted ? 'Ativar Som' : 'Silenciar'}
+                  >
+                    M
+                  </button>
+                  <button
+                    onClick={() => onSoloAudio(s.id)}
+                    className={`px-1.5 py-0.5 rounded text-[9px] uppercase font-bold tracking-wider transition-colors ${audioFocusId === s.id ? 'bg-white text-black' : 'text-neutral-400 hover:text-white hover:bg-white/10'}`}
+                    title={audioFocusId === s.id ? 'Sair do Solo' : 'Solo Áudio'}
+                  >
+                    S
+                  </button>
+                </div>
+              </div>
+              {hasVolumeControl ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={volume}
+                    onChange={(e) => onVolumeChange(s.id, Number(e.target.value))}
+                    className="flex-1 accent-white cursor-pointer"
+                  />
+                  <span className="w-8 text-right text-[10px] font-mono text-neutral-400">{volume}%</span>
+                </div>
+              ) : (
+                <span className="text-[9px] text-neutral-600">{adapter?.label || s.defaultPlatform}: {hasMuteControl ? 'volume não controlável' : 'som não controlável'}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Ducking */}
+      <div className="flex flex-col gap-2 mt-1 pt-2 border-t border-white/5">
+        <button
+          onClick={() => onUpdateSettings({ duckOthers: !settings.duckOthers })}
+          className={`text-[9px] py-1.5 rounded uppercase font-bold tracking-wider transition-colors ${settings.duckOthers ? 'bg-white/10 text-white' : 'bg-white/5 text-neutral-500 hover:text-white'}`}
+          title="Abaixa os outros players enquanto o player expandido estiver com som"
+        >
+          Abaixar Outros: {settings.duckOthers ? 'ON' : 'OFF'}
+        </button>
+        {settings.duckOthers && (
+          <div className="flex items-center gap-2">
+            <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-500">Nível</span>
+            <input
+              type="range"
+              min={0}
+              max={90}
+              step={5}
+              value={settings.duckLevel}
+              onChange={(e) => onUpdateSettings({ duckLevel: Number(e.target.value) })}
+              className="flex-1 accent-white cursor-pointer"
+            />
+            <span className="w-8 text-right text-[10px] font-mono text-neutral-400">{settings.duckLevel}%</span>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default AudioMixer;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ChatDockPosition, ChatDockSettings } from '../types';
+import { CHAT_MIN_WIDTH, CHAT_MAX_WIDTH } from '../utils/storage';
+
+interface ChatDockMenuProps {
+  dock: ChatDockSettings;
+  onChange: (patch: Partial<ChatDockSettings>) => void;
+}
+
+const POSITIONS: { id: ChatDockPosition; label: string; icon: React.ReactNode }[] = [
+  {
+    id: 'left',
+    label: 'Esquerda',
+    icon: <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M9 3v18"/></svg>,
+  },
+  {
+    id: 'right',
+    label: 'Direita',
+    icon: <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M15 3v18"/></svg>,
+  },
+  {
+    id: 'bottom',
+    label: 'Embaixo',
+    icon: <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 15h18"/></svg>,
+  },
+  {
+    id: 'floating',
+    label: 'Flutuante',
+    icon: <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><rect width="8" height="7" x="11" y="12" rx="1"/></svg>,
+  },
+];
+
+const ChatDockMenu: React.FC<ChatDockMenuProps> = ({ dock, onChange }) => {
+  // The clamp stays ordered: raising the minimum past the maximum drags the maximum along
+  const setClamp = (key: 'minWidth' | 'maxWidth', raw: string) => {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) return;
+    const clamped = Math.min(CHAT_MAX_WIDTH, Math.max(CHAT_MIN_WIDTH, Math.round(value)));
+    onChange(key === 'minWidth'
+      ? { minWidth: clamped, maxWidth: Math.max(clamped, dock.maxWidth) }
+      : { maxWidth: clamped, minWidth: Math.min(clamped, dock.minWidth) });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="absolute right-12 top-0 bg-black/90 border border-white/10 rounded-xl p-3 flex flex-col gap-2 w-56 shadow-2xl z-50 backdrop-blur-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-1 border-b border-white/5 pb-2">
+        <span className="text-[10px] uppercase font-bold text-neutral-500">Posição do Chat</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        {POSITIONS.map(position => (
+          <button
+            key={position.id}
+            onClick={() => onChange({ position: position.id })}
+            className={`flex items-center gap-2 px-2 py-1.5 rounded text-[9px] uppercase font-bold tracking-wider transition-colors ${dock.position === position.id ? 'bg-white/10 text-white' : 'bg-white/5 text-neutral-500 hover:text-white'}`}
+          >
+            {position.icon}
+            {position.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1 pt-2 border-t border-white/5">
+        <span className="text-[9px] text-neutral-500">Limites de largura ao redimensionar (px)</span>
+        <div className="grid grid-cols-2 gap-1">
+          {(['minWidth', 'maxWidth'] as const).map(key => (
+            <label key={key} className="flex flex-col gap-1">
+              <span className="text-[8px] uppercase font-bold tracking-widest text-neutral-600">{key === 'minWidth' ? 'Mínima' : 'Máxima'}</span>
+              <input
+                // Remounts when the other field reorders the clamp, so the shown value stays in sync
+                key={dock[key]}
+                type="number"
+                min={CHAT_MIN_WIDTH}
+                max={CHAT_MAX_WIDTH}
+                step={10}
+                defaultValue={dock[key]}
+                onBlur={(e) => setClamp(key, e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 text-[10px] font-mono text-white focus:outline-none focus:border-white/30"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ChatDockMenu;
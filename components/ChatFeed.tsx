@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatConnectionStatus, ChatSource, StreamerConfig } from '../types';
+import { getPlatformAdapter } from '../platforms';
+import useChatFeed, { getChatSourceKey } from '../hooks/useChatFeed';
+
+interface ChatFeedProps {
+  streamers: StreamerConfig[];
+  sources: ChatSource[];
+  onSelectStreamer: (id: string) => void; // Opens that streamer's own chat tab
+}
+
+const STATUS_LIGHTS: Record<ChatConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: 'Conectando', className: 'bg-yellow-400 animate-pulse' },
+  connected: { label: 'Conectado', className: 'bg-green-500' },
+  error: { label: 'Erro, reconectando', className: 'bg-orange-500' },
+  unavailable: { label: 'Indisponível', className: 'bg-neutral-600' },
+};
+
+const ChatFeed: React.FC<ChatFeedProps> = ({ streamers, sources, onSelectStreamer }) => {
+  const { messages, statuses } = useChatFeed(sources);
+  const [isPaused, setIsPaused] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Stick to the newest message unless the user is reading (hovering) the feed
+  useEffect(() => {
+    if (isPaused || !listRef.current) return;
+    listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [messages, isPaused]);
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {/* Sources */}
+      <div className="flex flex-none flex-wrap gap-1 px-2 py-2 border-b border-white/5">
+        {sources.map(source => {
+          const streamer = streamers.find(s => s.id === source.streamerId);
+          const adapter = getPlatformAdapter(source.platform);
+          const light = STATUS_LIGHTS[statuses[getChatSourceKey(source)] || 'connecting'];
+          return (
+            <button
+              key={getChatSourceKey(source)}
+              onClick={() => onSelectStreamer(source.streamerId)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-white/5 hover:bg-white/10 text-neutral-400 hover:text-white transition-colors"
+              title={`${streamer?.name || source.streamerId} (${adapter?.label || source.platform}): ${light.label}`}
+            >
+              <div className={`w-1.5 h-1.5 rounded-full ${light.className}`} />
+              {adapter && <adapter.Icon className="w-2.5 h-2.5" />}
+              <span className="text-[9px] font-bold uppercase tracking-wider">{streamer?.name || source.streamerId}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 relative min-h-0">
+        <div
+          ref={listRef}
+          className="absolute inset-0 overflow-y-auto py-2"
+          onMouseEnter={() => setIsPaused(true)}
+          onMouseLeave={() => setIsPaused(false)}
+        >
+          {messages.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-[10px] font-bold uppercase tracking-widest text-neutral-600">
+              {sources.length > 0 ? 'Aguardando mensagens...' : 'Nenhum chat compatível'}
+            </div>
+          ) : messages.map(message => {
+            const streamer = streamers.find(s => s.id === message.streamerId);
+            const adapter = getPlatformAdapter(message.platform);
+            return (
+              <div key={message.key} className="px-3 py-1 text-xs leading-relaxed text-neutral-200 break-words hover:bg-white/5">
+                {adapter && <adapter.Icon className="inline w-3 h-3 mr-1 align-middle" />}
+                {streamer && (
+                  <span
+                    className="inline-block mr-1.5 px-1 rounded border text-[8px] font-bold uppercase tracking-wider align-middle"
+                    style={{ color: streamer.color, borderColor: `${streamer.color}66` }}
+                  >
+                    {streamer.name}
+                  </span>
+                )}
+                <span className="font-bold" style={{ color: message.authorColor || '#a3a3a3' }}>{message.author}</span>
+                <span className="text-neutral-600">: </span>
+                {message.fragments.map((fragment, i) => fragment.type === 'emote' && fragment.url ? (
+                  <img
+                    key={i}
+                    src={fragment.url}
+                    alt={fragment.text}
+                    title={fragment.text}
+                    loading="lazy"
+                    className="inline h-6 mx-0.5 align-middle"
+                  />
+                ) : (
+                  <span key={i}>{fragment.text}</span>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {isPaused && messages.length > 0 && (
+          <div className="absolute bottom-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/80 border border-white/10 backdrop-blur-md pointer-events-none">
+            <span className="text-[9px] font-bold uppercase tracking-widest text-white/70">Chat pausado</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatFeed;
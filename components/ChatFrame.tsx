@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { StreamerConfig, PlatformId } from '../types';
+import { getPlatformAdapter, getEmbedContext } from '../platforms';
+import { hasLiveVideoResolver, resolveLiveVideo } from '../services/liveVideo';
+
+interface ChatFrameProps {
+  streamer: StreamerConfig;
+  platform: PlatformId;
+}
+
+// One streamer's embedded chat. Channels that can only embed a video's chat
+// (YouTube UC... ids) are resolved to their live video first; the pop-out link
+// is the fallback when that fails or the platform cannot embed chat at all.
+const ChatFrame: React.FC<ChatFrameProps> = ({ streamer, platform }) => {
+  const adapter = getPlatformAdapter(platform);
+  const channelId = (streamer.channels[platform] || '').trim();
+  const directUrl = channelId && adapter ? adapter.buildChatUrl(channelId, getEmbedContext()) : null;
+  const needsResolving = Boolean(channelId && !directUrl && hasLiveVideoResolver(platform));
+  const lookupKey = `${platform}:${channelId}`;
+
+  const [resolved, setResolved] = useState<{ key: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!needsResolving) return;
+    let cancelled = false;
+    resolveLiveVideo(platform, channelId).then(videoId => {
+      if (cancelled) return;
+      setResolved({ key: lookupKey, url: videoId && adapter ? adapter.buildChatUrl(videoId, getEmbedContext()) : null });
+    });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lookupKey, needsResolving]);
+
+  const resolution = resolved?.key === lookupKey ? resolved : null;
+  const url = directUrl || resolution?.url;
+
+  if (url) {
+    return <iframe src={url} className="w-full h-full border-none" title={`${streamer.name} Chat Tab`} />;
+  }
+
+  if (needsResolving && !resolution) {
+    return (
+      <div className="h-full flex items-center justify-center bg-[#0F0F0F]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-neutral-600 animate-pulse">Procurando transmissão ao vivo...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-6 text-center text-neutral-500 bg-[#0F0F0F]">
+      {adapter && <adapter.Icon className="w-12 h-12 mb-4 opacity-20" />}
+      <p className="text-xs mb-4">
+        {needsResolving
+          ? `Nenhuma transmissão ao vivo do ${adapter?.label || platform} encontrada para incorporar o chat.`
+          : `O ${adapter?.label || platform} não permite incorporar o chat diretamente.`}
+      </p>
+      <a
+        href={channelId && adapter ? adapter.buildPopoutUrl(channelId) : '#'}
+        target="_blank"
+        rel="noreferrer"
+        className="px-5 py-2 bg-neutral-800 hover:bg-neutral-700 text-white text-xs font-bold uppercase rounded transition"
+      >
+        Abrir Chat Externo
+      </a>
+    </div>
+  );
+};
+
+export default ChatFrame;
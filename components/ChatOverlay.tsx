@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChatOverlayCorner, ChatOverlaySettings, PlatformId, StreamerConfig } from '../types';
+import { CHAT_OVERLAY_LIMITS } from '../utils/storage';
+import ChatFrame from './ChatFrame';
+
+interface ChatOverlayProps {
+  streamer: StreamerConfig;
+  platform: PlatformId;
+  settings: ChatOverlaySettings;
+  onChange: (patch: Partial<ChatOverlaySettings>) => void;
+}
+
+const CORNER_CLASSES: Record<ChatOverlayCorner, string> = {
+  'top-left': 'top-12 left-14',
+  'top-right': 'top-12 right-3',
+  'bottom-left': 'bottom-3 left-14',
+  'bottom-right': 'bottom-3 right-3',
+};
+
+const CORNERS: { id: ChatOverlayCorner; label: string }[] = [
+  { id: 'top-left', label: 'Superior esquerdo' },
+  { id: 'top-right', label: 'Superior direito' },
+  { id: 'bottom-left', label: 'Inferior esquerdo' },
+  { id: 'bottom-right', label: 'Inferior direito' },
+];
+
+const SLIDERS: { key: keyof typeof CHAT_OVERLAY_LIMITS; label: string; step: number }[] = [
+  { key: 'opacity', label: 'Opacidade', step: 5 },
+  { key: 'width', label: 'Largura', step: 5 },
+  { key: 'fontScale', label: 'Texto', step: 10 },
+];
+
+// A streamer's chat laid over their video. Clicks reach the player underneath
+// until the header is hovered, which makes the whole overlay interactive.
+const ChatOverlay: React.FC<ChatOverlayProps> = ({ streamer, platform, settings, onChange }) => {
+  const [isInteractive, setIsInteractive] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+
+  // Embedded chats can't be restyled, so the frame is zoomed instead of its font
+  const scale = settings.fontScale / 100;
+
+  return (
+    <div
+      className={`absolute ${CORNER_CLASSES[settings.corner]} z-10 h-[60%] flex flex-col rounded-lg overflow-hidden border border-white/10 transition-opacity duration-300 ${isInteractive ? 'pointer-events-auto' : 'pointer-events-none'}`}
+      style={{ width: `${settings.width}%`, opacity: isInteractive ? 1 : settings.opacity / 100 }}
+      onMouseLeave={() => { setIsInteractive(false); setShowControls(false); }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header (always hoverable) */}
+      <div
+        className="pointer-events-auto flex flex-none items-center gap-2 h-6 px-2 bg-black/70 backdrop-blur-md border-b border-white/10"
+        onMouseEnter={() => setIsInteractive(true)}
+      >
+        <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: streamer.color }} />
+        <span className="flex-1 min-w-0 text-[9px] font-bold uppercase tracking-widest text-white/80 truncate">Chat {streamer.name}</span>
+        <button
+          onClick={() => setShowControls(!showControls)}
+          className={`p-0.5 rounded transition-colors ${showControls ? 'text-white' : 'text-white/50 hover:text-white'}`}
+          title="Ajustes do chat na tela"
+        >
+          <svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="4" x2="4" y1="21" y2="14"/><line x1="4" x2="4" y1="10" y2="3"/><line x1="12" x2="12" y1="21" y2="12"/><line x1="12" x2="12" y1="8" y2="3"/><line x1="20" x2="20" y1="21" y2="16"/><line x1="20" x2="20" y1="12" y2="3"/><line x1="2" x2="6" y1="14" y2="14"/><line x1="10" x2="14" y1="8" y2="8"/><line x1="18" x2="22" y1="16" y2="16"/></svg>
+        </button>
+        <button
+          onClick={() => onChange({ enabled: false })}
+          className="p-0.5 rounded text-white/50 hover:text-white transition-colors"
+          title="Fechar chat na tela"
+        >
+          <svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+        </button>
+      </div>
+
+      {/* Controls */}
+      <AnimatePresence>
+        {showControls && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="flex-none flex flex-col gap-2 px-2 py-2 bg-black/80 backdrop-blur-md border-b border-white/10 overflow-hidden"
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-[8px] uppercase font-bold tracking-widest text-neutral-500">Canto</span>
+              <div className="grid grid-cols-2 gap-0.5">
+                {CORNERS.map(corner => (
+                  <button
+                    key={corner.id}
+                    onClick={() => onChange({ corner: corner.id })}
+                    className={`w-3 h-2 rounded-sm transition-colors ${settings.corner === corner.id ? 'bg-white' : 'bg-white/20 hover:bg-white/40'}`}
+                    title={corner.label}
+                  />
+                ))}
+              </div>
+            </div>
+            {SLIDERS.map(({ key, label, step }) => (
+              <label key={key} className="flex items-center gap-2">
+                <span className="w-14 text-[8px] uppercase font-bold tracking-widest text-neutral-500">{label}</span>
+                <input
+                  type="range"
+                  min={CHAT_OVERLAY_LIMITS[key].min}
+                  max={CHAT_OVERLAY_LIMITS[key].max}
+                  step={step}
+                  value={settings[key]}
+                  onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+                  className="flex-1 h-1 accent-white"
+                />
+                <span className="w-7 text-right text-[8px] font-mono text-neutral-400">{settings[key]}%</span>
+              </label>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Chat */}
+      <div className="flex-1 relative min-h-0 overflow-hidden">
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ width: `${100 / scale}%`, height: `${100 / scale}%`, transform: `scale(${scale})` }}
+        >
+          <ChatFrame streamer={streamer} platform={platform} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatOverlay;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { ChatWallLayout, PlatformId, StreamerConfig } from '../types';
+import { getPlatformAdapter, isRegisteredPlatform } from '../platforms';
+import { CHAT_WALL_MIN_WIDTH, CHAT_WALL_MAX_WIDTH } from '../utils/storage';
+import ChatFrame from './ChatFrame';
+
+interface ChatWallProps {
+  streamers: StreamerConfig[]; // Visible streamers, in display order
+  chatPlatforms: Record<string, PlatformId>;
+  onChatPlatformChange: (streamerId: string, platform: PlatformId) => void;
+  onMoveColumn: (streamerId: string, direction: 'up' | 'down') => void;
+  layout: ChatWallLayout;
+  onLayoutChange: (layout: ChatWallLayout) => void;
+}
+
+const iconButton = 'p-1 rounded text-neutral-500 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:text-neutral-500 disabled:hover:bg-transparent transition-colors';
+
+// Chat-only mode on wide screens: one resizable, collapsible column per visible streamer
+const ChatWall: React.FC<ChatWallProps> = ({ streamers, chatPlatforms, onChatPlatformChange, onMoveColumn, layout, onLayoutChange }) => {
+  const [resizing, setResizing] = useState<{ id: string; startX: number; startWidth: number } | null>(null);
+
+  useEffect(() => {
+    if (!resizing) return;
+    const handleMove = (e: PointerEvent) => {
+      const width = Math.min(CHAT_WALL_MAX_WIDTH, Math.max(CHAT_WALL_MIN_WIDTH, Math.round(resizing.startWidth + e.clientX - resizing.startX)));
+      onLayoutChange({ ...layout, widths: { ...layout.widths, [resizing.id]: width } });
+    };
+    // A cancelled pointer must not leave the resize overlay blocking the chats
+    const handleUp = () => setResizing(null);
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [resizing, layout, onLayoutChange]);
+
+  const toggleCollapsed = (id: string) => {
+    onLayoutChange({
+      ...layout,
+      collapsed: layout.collapsed.includes(id) ? layout.collapsed.filter(c => c !== id) : [...layout.collapsed, id],
+    });
+  };
+
+  // Double-clicking a handle gives the column back its share of the free space
+  const resetWidth = (id: string) => {
+    const { [id]: _removed, ...widths } = layout.widths;
+    onLayoutChange({ ...layout, widths });
+  };
+
+  if (streamers.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center w-full h-full text-neutral-500">
+        <span className="text-2xl font-bold uppercase mb-2">Sem Chats Visíveis</span>
+        <span className="text-xs">Use o menu lateral para ativar os streamers.</span>
+      </div>
+    );
+  }
+
+  // Right padding keeps the last column clear of the control dock
+  return (
+    <div className="w-full h-full flex overflow-x-auto pr-16 bg-[#090909]">
+      {/* Keeps the chat iframes from swallowing the pointer while resizing */}
+      {resizing && <div className="fixed inset-0 z-[100] cursor-col-resize" />}
+
+      {streamers.map((streamer, index) => {
+        const platform = chatPlatforms[streamer.id];
+        const isCollapsed = layout.collapsed.includes(streamer.id);
+        const width = layout.widths[streamer.id];
+
+        if (isCollapsed) {
+          return (
+            <button
+              key={streamer.id}
+              onClick={() => toggleCollapsed(streamer.id)}
+              className="flex-none w-10 h-full flex flex-col items-center gap-3 py-3 border-r border-white/10 text-neutral-500 hover:text-white hover:bg-white/5 transition-colors"
+              title={`Expandir chat de ${streamer.name}`}
+            >
+              <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: streamer.color }} />
+              <span className="text-[10px] font-bold uppercase tracking-widest [writing-mode:vertical-rl]">{streamer.name}</span>
+            </button>
+          );
+        }
+
+        return (
+          <div
+            key={streamer.id}
+            className={`relative h-full flex flex-col border-r border-white/10 ${width ? 'flex-none' : 'flex-1'}`}
+            style={{ width: width || undefined, minWidth: CHAT_WALL_MIN_WIDTH }}
+          >
+            {/* Column Header */}
+            <div className="flex flex-none items-center gap-2 h-10 px-2 bg-black/40 border-b border-white/10" style={{ boxShadow: `inset 0 -2px 0 ${streamer.color}` }}>
+              <span className="flex-1 min-w-0 text-[10px] font-bold uppercase tracking-wider text-white truncate">{streamer.name}</span>
+
+              <div className="flex items-center gap-0.5">
+                {Object.keys(streamer.channels).filter(isRegisteredPlatform).filter(p => streamer.channels[p]).map(p => {
+                  const adapter = getPlatformAdapter(p);
+                  if (!adapter) return null;
+                  return (
+                    <button
+                      key={p}
+                      onClick={() => onChatPlatformChange(streamer.id, p)}
+                      className={`p-1 rounded transition-colors ${platform === p ? 'bg-white/10 text-white' : 'text-neutral-600 hover:text-white'}`}
+                      title={`Chat do ${adapter.label}`}
+                    >
+                      <adapter.Icon className="w-3 h-3" />
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center">
+                <button onClick={() => onMoveColumn(streamer.id, 'up')} disabled={index === 0} className={iconButton} title="Mover para a esquerda">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M19 12H5"/><path d="m12 19-7-7 7-7"/></svg>
+                </button>
+                <button onClick={() => onMoveColumn(streamer.id, 'down')} disabled={index === streamers.length - 1} className={iconButton} title="Mover para a direita">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M5 12h14"/><path d="m12 5 7 7-7 7"/></svg>
+                </button>
+                <button onClick={() => toggleCollapsed(streamer.id)} className={iconButton} title="Recolher">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m11 17-5-5 5-5"/><path d="m18 17-5-5 5-5"/></svg>
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0">
+              <ChatFrame streamer={streamer} platform={platform} />
+            </div>
+
+            {/* Resize Handle */}
+            <div
+              onPointerDown={(e) => {
+                e.preventDefault();
+                const column = e.currentTarget.parentElement;
+                setResizing({ id: streamer.id, startX: e.clientX, startWidth: column ? column.offsetWidth : CHAT_WALL_MIN_WIDTH });
+              }}
+              onDoubleClick={() => resetWidth(streamer.id)}
+              className="absolute top-0 bottom-0 -right-1 w-2 z-20 cursor-col-resize hover:bg-white/10 transition-colors"
+              title="Arrastar para ajustar a largura"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ChatWall;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PaletteCommand } from '../types';
+import { fuzzyScore } from '../utils/fuzzy';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  commands: PaletteCommand[];
+  recentIds: string[]; // Most recent first
+  onRun: (command: PaletteCommand) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+// Enough to lift a recent command over a slightly better textual match
+const RECENT_BONUS = 30;
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, commands, recentIds, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    // Wait for the enter animation to mount the input
+    const timer = setTimeout(() => inputRef.current?.focus(), 0);
+    return () => clearTimeout(timer);
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    const recencyBonus = (id: string) => {
+      const index = recentIds.indexOf(id);
+      return index === -1 ? 0 : RECENT_BONUS - index;
+    };
+
+    if (!query.trim()) {
+      return [...commands]
+        .sort((a, b) => recencyBonus(b.id) - recencyBonus(a.id))
+        .slice(0, MAX_RESULTS);
+    }
+
+    return commands
+      .map(command => ({
+        command,
+        score: fuzzyScore(query, [command.label, command.group, ...(command.keywords || [])].join(' ')),
+      }))
+      .filter((r): r is { command: PaletteCommand; score: number } => r.score !== null)
+      .sort((a, b) => (b.score + recencyBonus(b.command.id)) - (a.score + recencyBonus(a.command.id)))
+      .slice(0, MAX_RESULTS)
+      .map(r => r.command);
+  }, [commands, recentIds, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted entry in view while navigating with the arrows
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) onRun(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-start justify-center p-4 pt-[15vh]"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: -10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: -10 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-lg max-h-[70dvh] flex flex-col bg-black/90 border border-white/10 rounded-2xl shadow-[0_10px_40px_rgba(0,0,0,0.8)] overflow-hidden"
+          >
+            <input
+              ref={inputRef}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Digite um comando ou streamer..."
+              className="w-full px-5 py-4 bg-transparent border-b border-white/5 text-sm text-white placeholder:text-neutral-600 outline-none"
+            />
+
+            <div ref={listRef} className="flex-1 overflow-y-auto p-2 flex flex-col gap-0.5">
+              {results.map((command, i) => (
+                <button
+                  key={command.id}
+                  onClick={() => onRun(command)}
+                  onMouseMove={() => setActiveIndex(i)}
+                  className={`flex items-center justify-between gap-3 px-3 py-2 rounded text-left transition-colors ${i === activeIndex ? 'bg-white/10' : ''}`}
+                >
+                  <span className="text-xs text-white truncate">{command.label}</span>
+                  <span className="flex items-center gap-2 flex-shrink-0">
+                    {!query.trim() && recentIds.includes(command.id) && (
+                      <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-600">Recente</span>
+                    )}
+                    <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-500">{command.group}</span>
+                  </span>
+                </button>
+              ))}
+              {results.length === 0 && (
+                <span className="px-3 py-6 text-center text-xs text-neutral-500">Nenhum comando encontrado.</span>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3 px-5 py-2 border-t border-white/5 text-[9px] uppercase font-bold tracking-wider text-neutral-600">
+              <span>↑↓ navegar</span>
+              <span>Enter executar</span>
+              <span>Esc fechar</span>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CommandPalette;
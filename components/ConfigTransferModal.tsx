@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PersistedConfig } from '../types';
+import {
+  readCurrentConfig,
+  applyConfig,
+  downloadConfig,
+  parseConfigDocument,
+  mergeConfig,
+  diffConfig,
+} from '../utils/configTransfer';
+
+interface ConfigTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ImportMode = 'merge' | 'replace';
+
+const ConfigTransferModal: React.FC<ConfigTransferModalProps> = ({ isOpen, onClose }) => {
+  const [incoming, setIncoming] = useState<PersistedConfig | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from a clean slate every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setIncoming(null);
+      setWarnings([]);
+      setError(null);
+      setMode('merge');
+    }
+  }, [isOpen]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseConfigDocument(await file.text());
+    setIncoming(result.config);
+    setWarnings(result.warnings);
+    setError(result.error);
+  };
+
+  const current = isOpen ? readCurrentConfig() : null;
+  const next = current && incoming ? (mode === 'merge' ? mergeConfig(current, incoming) : incoming) : null;
+  const diff = current && next ? diffConfig(current, next) : [];
+
+  const handleApply = () => {
+    if (!next) return;
+    applyConfig(next);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-lg max-h-[90dvh] flex flex-col bg-black/90 border border-white/10 rounded-2xl shadow-[0_10px_40px_rgba(0,0,0,0.8)] overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-3 border-b border-white/5">
+              <span className="text-[11px] font-black uppercase tracking-widest text-white">Configuração</span>
+            </div>
+
+            <div className="flex-1 flex flex-col gap-4 p-5 overflow-y-auto">
+              {/* Export / Import Actions */}
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => current && downloadConfig(current)}
+                  className="py-2.5 text-[10px] uppercase font-bold tracking-wider bg-white/5 hover:bg-white/10 rounded transition-colors"
+                >
+                  Exportar JSON
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="py-2.5 text-[10px] uppercase font-bold tracking-wider bg-white/5 hover:bg-white/10 rounded transition-colors"
+                >
+                  Importar JSON
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+              </div>
+
+              <span className="text-[10px] text-neutral-500">
+                Inclui streamers, layouts, presets, preferências, atalhos e foco de áudio. Posição e tamanho dos chats (mural, dock e chat na tela) e o histórico de comandos ficam só neste dispositivo.
+              </span>
+
+              {error && (
+                <span className="text-[10px] font-bold uppercase tracking-wider text-red-400">{error}</span>
+              )}
+
+              {incoming && (
+                <>
+                  {/* Merge vs Replace */}
+                  <div className="grid grid-cols-2 gap-1 p-1 bg-white/5 rounded-full">
+                    {(['merge', 'replace'] as ImportMode[]).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`py-1.5 text-[9px] uppercase font-bold tracking-wider rounded-full transition-colors ${mode === m ? 'bg-white text-black' : 'text-neutral-400 hover:text-white'}`}
+                      >
+                        {m === 'merge' ? 'Mesclar' : 'Substituir'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-[9px] text-neutral-500 -mt-2">
+                    {mode === 'merge'
+                      ? 'Mantém streamers que só existem aqui; o restante vem do arquivo.'
+                      : 'Descarta a configuração atual e usa somente o arquivo.'}
+                  </span>
+
+                  {warnings.map(w => (
+                    <span key={w} className="text-[10px] text-yellow-400/80">{w}</span>
+                  ))}
+
+                  {/* Diff Preview */}
+                  <div className="flex flex-col gap-1">
+                    <span className="text-[9px] uppercase font-bold text-neutral-500 tracking-widest">Alterações</span>
+                    {diff.length === 0 ? (
+                      <span className="text-xs text-neutral-500">Nenhuma diferença em relação à configuração atual.</span>
+                    ) : (
+                      diff.map((d, i) => (
+                        <div key={i} className="flex flex-col gap-0.5 p-2 rounded bg-white/5">
+                          <div className="flex justify-between gap-2">
+                            <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-500">{d.section}</span>
+                            <span className="text-xs font-medium text-white truncate">{d.label}</span>
+                          </div>
+                          <div className="flex items-center gap-2 text-[10px] font-mono">
+                            <span className="text-red-300/70 truncate">{d.from}</span>
+                            <span className="text-neutral-600">→</span>
+                            <span className="text-green-300/80 truncate">{d.to}</span>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex justify-end gap-2 px-5 py-3 border-t border-white/5">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider text-neutral-400 hover:text-white transition-colors"
+              >
+                Fechar
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={!next}
+                className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider bg-white text-black rounded-full hover:scale-105 active:scale-95 transition-transform disabled:opacity-30 disabled:hover:scale-100"
+              >
+                Aplicar
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ConfigTransferModal;
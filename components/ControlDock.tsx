@@ -1,23 +1,52 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AppSettings } from '../types';
-import { STREAMERS } from '../constants';
+import { AppSettings, ChatDockSettings, StreamerConfig, LayoutMode, LayoutDefinition, MultiStreamState, WorkspacePreset } from '../types';
+import { getLayoutDefinition, getNextLayoutId } from '../layout';
+import AudioMixer from './AudioMixer';
+import FailoverSettings from './FailoverSettings';
+import LayoutMenu from './LayoutMenu';
+import PresetMenu from './PresetMenu';
+import ChatDockMenu from './ChatDockMenu';
 
 interface ControlDockProps {
   settings: AppSettings;
   onUpdateSettings: (newSettings: Partial<AppSettings>) => void;
-  layoutMode: 'columns' | 'grid' | 'pyramid';
+  layoutMode: LayoutMode;
   onToggleLayout: () => void;
+  customLayouts: LayoutDefinition[];
+  onSelectLayout: (id: LayoutMode) => void;
+  onEditLayout: (layout: LayoutDefinition | null) => void;
+  presets: WorkspacePreset[];
+  onApplyPreset: (id: string) => void;
+  onCreatePreset: (name: string) => void;
+  onOverwritePreset: (id: string) => void;
+  onRenamePreset: (id: string, name: string) => void;
+  onMovePreset: (id: string, direction: 'up' | 'down') => void;
+  onDeletePreset: (id: string) => void;
   isChatOpen: boolean;
   onToggleChat: () => void;
+  chatDock: ChatDockSettings;
+  onChatDockChange: (patch: Partial<ChatDockSettings>) => void;
   onResetLayout: () => void;
   onRefreshAll: () => void;
+  onCopyShareLink: () => Promise<boolean>;
   isMobile: boolean;
+  streamers: StreamerConfig[];
+  onOpenRosterEditor: () => void;
+  onOpenConfigTransfer: () => void;
+  onOpenShortcuts: () => void;
+  onOpenCommandPalette: () => void;
   visibleStreamers: string[];
   onToggleStreamerVisibility: (id: string) => void;
   onResetOrder: () => void;
   streamerOrder: string[]; // Order of streamer IDs
   onMoveStreamer: (id: string, direction: 'up' | 'down') => void;
+  audioFocusId: string | null;
+  onSoloAudio: (id: string) => void;
+  onCycleAudioFocus: () => void;
+  streamerStates: MultiStreamState;
+  onToggleMute: (id: string) => void;
+  onVolumeChange: (id: string, volume: number) => void;
 }
 
 const ControlDock: React.FC<ControlDockProps> = ({
@@ -25,21 +54,51 @@ const ControlDock: React.FC<ControlDockProps> = ({
   onUpdateSettings,
   layoutMode,
   onToggleLayout,
+  customLayouts,
+  onSelectLayout,
+  onEditLayout,
+  presets,
+  onApplyPreset,
+  onCreatePreset,
+  onOverwritePreset,
+  onRenamePreset,
+  onMovePreset,
+  onDeletePreset,
   isChatOpen,
   onToggleChat,
+  chatDock,
+  onChatDockChange,
   onResetLayout,
   onRefreshAll,
+  onCopyShareLink,
   isMobile,
+  streamers,
+  onOpenRosterEditor,
+  onOpenConfigTransfer,
+  onOpenShortcuts,
+  onOpenCommandPalette,
   visibleStreamers,
   onToggleStreamerVisibility,
   onResetOrder,
   streamerOrder,
-  onMoveStreamer
+  onMoveStreamer,
+  audioFocusId,
+  onSoloAudio,
+  onCycleAudioFocus,
+  streamerStates,
+  onToggleMute,
+  onVolumeChange
 }) => {
   const [hoveredButton, setHoveredButton] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
   const [showPlayersMenu, setShowPlayersMenu] = useState(false);
+  const [showMixer, setShowMixer] = useState(false);
+  const [showFailover, setShowFailover] = useState(false);
+  const [showLayouts, setShowLayouts] = useState(false);
+  const [showPresets, setShowPresets] = useState(false);
+  const [showChatDock, setShowChatDock] = useState(false);
   const [isUIActive, setIsUIActive] = useState(true);
+  const [linkCopied, setLinkCopied] = useState(false);
   const activityTimerRef = useRef<number | null>(null);
 
   // Auto-expand on mount for 5 seconds to show user the controls exist
@@ -85,6 +144,10 @@ const ControlDock: React.FC<ControlDockProps> = ({
       } else if (layoutMode === 'grid') {
           // Icon for "Switch to Pyramid"
           return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 14h18"/><path d="M12 14v7"/></svg>;
+      } else if (layoutMode === 'auto') {
+          return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 12h18"/><path d="M12 3v18"/></svg>;
+      } else if (layoutMode === 'focus-side') {
+          return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M15 3v18"/><path d="M15 9h6"/><path d="M15 15h6"/></svg>;
       } else {
           // Icon for "Switch to Columns" (Currently Pyramid)
           // Triangle-ish grid icon
@@ -92,10 +155,16 @@ const ControlDock: React.FC<ControlDockProps> = ({
       }
   };
 
-  const getLayoutLabel = () => {
-      if (layoutMode === 'columns') return 'Ir para Foco (Grade)';
-      if (layoutMode === 'grid') return 'Ir para Pirâmide';
-      return 'Ir para Colunas';
+  const getLayoutLabel = () => `Ir para ${getLayoutDefinition(getNextLayoutId(layoutMode, customLayouts), customLayouts)?.label}`;
+
+  const focusedStreamer = streamers.find(s => s.id === audioFocusId);
+
+  const handleShare = async () => {
+      const copied = await onCopyShareLink();
+      if (copied) {
+          setLinkCopied(true);
+          setTimeout(() => setLinkCopied(false), 2000);
+      }
   };
 
   const dockItems = [
@@ -106,18 +175,59 @@ const ControlDock: React.FC<ControlDockProps> = ({
       action: () => setShowPlayersMenu(!showPlayersMenu),
       isActive: showPlayersMenu,
     },
+    {
+      id: 'presets',
+      label: 'Presets',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"/></svg>,
+      action: () => setShowPresets(!showPresets),
+      isActive: showPresets,
+    },
+    {
+      id: 'roster',
+      label: 'Editar Streamers',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><line x1="19" x2="19" y1="8" y2="14"/><line x1="22" x2="16" y1="11" y2="11"/></svg>,
+      action: onOpenRosterEditor,
+    },
     {
       id: 'layout',
       label: getLayoutLabel(),
       icon: getLayoutIcon(),
       action: onToggleLayout,
     },
+    {
+      id: 'layouts',
+      label: 'Layouts Salvos',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="7" height="9" x="3" y="3" rx="1"/><rect width="7" height="5" x="14" y="3" rx="1"/><rect width="7" height="9" x="14" y="12" rx="1"/><rect width="7" height="5" x="3" y="16" rx="1"/></svg>,
+      action: () => setShowLayouts(!showLayouts),
+      isActive: showLayouts,
+    },
     {
       id: 'refresh',
       label: 'Recarregar Tudo',
       icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 12a9 9 0 0 0-9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/><path d="M3 12a9 9 0 0 0 9 9 9.75 9.75 0 0 0 6.74-2.74L21 16"/><path d="M16 16h5v5"/></svg>,
       action: onRefreshAll,
     },
+    {
+      id: 'solo',
+      label: focusedStreamer ? `Solo: ${focusedStreamer.name} (Próximo)` : 'Solo Áudio',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 14h3a2 2 0 0 1 2 2v3a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-7a9 9 0 0 1 18 0v7a2 2 0 0 1-2 2h-1a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h3"/></svg>,
+      action: onCycleAudioFocus,
+      isActive: Boolean(focusedStreamer),
+    },
+    {
+      id: 'mixer',
+      label: 'Mixer de Áudio',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="4" x2="4" y1="21" y2="14"/><line x1="4" x2="4" y1="10" y2="3"/><line x1="12" x2="12" y1="21" y2="12"/><line x1="12" x2="12" y1="8" y2="3"/><line x1="20" x2="20" y1="21" y2="16"/><line x1="20" x2="20" y1="12" y2="3"/><line x1="2" x2="6" y1="14" y2="14"/><line x1="10" x2="14" y1="8" y2="8"/><line x1="18" x2="22" y1="16" y2="16"/></svg>,
+      action: () => setShowMixer(!showMixer),
+      isActive: showMixer,
+    },
+    {
+      id: 'failover',
+      label: settings.autoFailover ? 'Troca Automática: ON' : 'Troca Automática de Plataforma',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m16 3 4 4-4 4"/><path d="M20 7H4"/><path d="m8 21-4-4 4-4"/><path d="M4 17h16"/></svg>,
+      action: () => setShowFailover(!showFailover),
+      isActive: showFailover || settings.autoFailover,
+    },
     {
       id: 'toggle-streams',
       label: settings.streamsVisible ? 'Modo Chat (Ocultar Vídeo)' : 'Mostrar Vídeo',
@@ -144,12 +254,46 @@ const ControlDock: React.FC<ControlDockProps> = ({
       isActive: settings.performanceMode,
       color: settings.performanceMode ? 'text-green-400' : 'text-white',
     },
+    {
+      id: 'share',
+      label: linkCopied ? 'Link Copiado!' : 'Copiar Link da Sessão',
+      icon: linkCopied
+        ? <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M20 6 9 17l-5-5"/></svg>
+        : <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/></svg>,
+      action: handleShare,
+      isActive: linkCopied,
+    },
+    {
+      id: 'config',
+      label: 'Importar / Exportar',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>,
+      action: onOpenConfigTransfer,
+    },
+    {
+      id: 'commands',
+      label: 'Comandos (Ctrl+K)',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="11" cy="11" r="8"/><path d="m21 21-4.3-4.3"/></svg>,
+      action: onOpenCommandPalette,
+    },
+    {
+      id: 'shortcuts',
+      label: 'Atalhos de Teclado',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="20" height="16" x="2" y="4" rx="2"/><path d="M6 8h.01"/><path d="M10 8h.01"/><path d="M14 8h.01"/><path d="M18 8h.01"/><path d="M8 12h.01"/><path d="M12 12h.01"/><path d="M16 12h.01"/><path d="M7 16h10"/></svg>,
+      action: onOpenShortcuts,
+    },
     {
       id: 'reset',
       label: 'Resetar Layout',
       icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/></svg>,
       action: onResetLayout,
     },
+    {
+      id: 'chat-dock',
+      label: 'Posição do Chat',
+      icon: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M15 3v18"/><path d="m8 9 3 3-3 3"/></svg>,
+      action: () => setShowChatDock(!showChatDock),
+      isActive: showChatDock,
+    },
     {
       id: 'chat',
       label: isChatOpen ? 'Fechar Chat' : 'Abrir Chat',
@@ -258,6 +402,13 @@ const ControlDock: React.FC<ControlDockProps> = ({
                                     <div className="flex justify-between items-center mb-2 border-b border-white/5 pb-2">
                                         <span className="text-[10px] uppercase font-bold text-neutral-500">Gerenciar & Ordem</span>
                                         <div className="flex gap-1">
+                                            <button 
+                                                onClick={onOpenRosterEditor}
+                                                className="p-1 hover:bg-white/10 rounded text-neutral-400 hover:text-white"
+                                                title="Editar Streamers"
+                                            >
+                                                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 20h9"/><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"/></svg>
+                                            </button>
                                             <button 
                                                 onClick={onResetOrder}
                                                 className="p-1 hover:bg-white/10 rounded text-neutral-400 hover:text-white"
@@ -270,7 +421,7 @@ const ControlDock: React.FC<ControlDockProps> = ({
 
                                     <div className="flex flex-col gap-1 mb-2">
                                         {streamerOrder.map((sId, index) => {
-                                            const s = STREAMERS.find(str => str.id === sId);
+                                            const s = streamers.find(str => str.id === sId);
                                             if(!s) return null;
                                             const isVisible = visibleStreamers.includes(s.id);
                                             
@@ -303,6 +454,15 @@ const ControlDock: React.FC<ControlDockProps> = ({
                                                             <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 5v14"/><path d="m19 12-7 7-7-7"/></svg>
                                                         </button>
 
+                                                        {/* Solo Audio */}
+                                                        <button
+                                                            onClick={(e) => { e.stopPropagation(); onSoloAudio(s.id); }}
+                                                            className={`p-1 ml-1 rounded ${audioFocusId === s.id ? 'bg-white text-black' : 'text-neutral-500 hover:text-white hover:bg-white/10'}`}
+                                                            title={audioFocusId === s.id ? 'Sair do Solo' : 'Solo Áudio'}
+                                                        >
+                                                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 14h3a2 2 0 0 1 2 2v3a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-7a9 9 0 0 1 18 0v7a2 2 0 0 1-2 2h-1a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h3"/></svg>
+                                                        </button>
+
                                                         {/* Visibility Toggle (Eye) */}
                                                         <button
                                                             onClick={(e) => { e.stopPropagation(); onToggleStreamerVisibility(s.id); }}
@@ -324,9 +484,9 @@ const ControlDock: React.FC<ControlDockProps> = ({
                                     {/* Action Footer */}
                                     <div className="grid grid-cols-2 gap-2 mt-2 pt-2 border-t border-white/5">
                                         <button 
-                                            onClick={() => visibleStreamers.length < STREAMERS.length ? STREAMERS.forEach(s => !visibleStreamers.includes(s.id) && onToggleStreamerVisibility(s.id)) : null}
+                                            onClick={() => visibleStreamers.length < streamers.length ? streamers.forEach(s => !visibleStreamers.includes(s.id) && onToggleStreamerVisibility(s.id)) : null}
                                             className="text-[9px] text-center py-1.5 bg-white/5 hover:bg-white/10 rounded uppercase font-bold tracking-wider transition-colors disabled:opacity-50"
-                                            disabled={visibleStreamers.length === STREAMERS.length}
+                                            disabled={visibleStreamers.length === streamers.length}
                                         >
                                             Mostrar Todos
                                         </button>
@@ -347,6 +507,60 @@ const ControlDock: React.FC<ControlDockProps> = ({
                                 </motion.div>
                             )}
 
+                            {/* Presets Popup (Only for 'presets' item) */}
+                            {item.id === 'presets' && showPresets && (
+                                <PresetMenu
+                                    presets={presets}
+                                    onApply={onApplyPreset}
+                                    onCreate={onCreatePreset}
+                                    onOverwrite={onOverwritePreset}
+                                    onRename={onRenamePreset}
+                                    onMove={onMovePreset}
+                                    onDelete={onDeletePreset}
+                                />
+                            )}
+
+                            {/* Layouts Popup (Only for 'layouts' item) */}
+                            {item.id === 'layouts' && showLayouts && (
+                                <LayoutMenu
+                                    layoutMode={layoutMode}
+                                    customLayouts={customLayouts}
+                                    onSelect={onSelectLayout}
+                                    spotlightStrip={settings.spotlightStrip}
+                                    onSpotlightStripChange={(strip) => onUpdateSettings({ spotlightStrip: strip })}
+                                    onEdit={(layout) => {
+                                        setShowLayouts(false);
+                                        onEditLayout(layout);
+                                    }}
+                                />
+                            )}
+
+                            {/* Chat Position Popup (Only for 'chat-dock' item) */}
+                            {item.id === 'chat-dock' && showChatDock && (
+                                <ChatDockMenu dock={chatDock} onChange={onChatDockChange} />
+                            )}
+
+                            {/* Failover Popup (Only for 'failover' item) */}
+                            {item.id === 'failover' && showFailover && (
+                                <FailoverSettings settings={settings} onUpdateSettings={onUpdateSettings} />
+                            )}
+
+                            {/* Audio Mixer Popup (Only for 'mixer' item) */}
+                            {item.id === 'mixer' && showMixer && (
+                                <AudioMixer
+                                    streamers={streamers}
+                                    streamerOrder={streamerOrder}
+                                    visibleStreamers={visibleStreamers}
+                                    streamerStates={streamerStates}
+                                    audioFocusId={audioFocusId}
+                                    onToggleMute={onToggleMute}
+                                    onSoloAudio={onSoloAudio}
+                                    onVolumeChange={onVolumeChange}
+                                    settings={settings}
+                                    onUpdateSettings={onUpdateSettings}
+                                />
+                            )}
+
                             <motion.button
                                 layout
                                 style={{ borderRadius: '50%' }}
@@ -0,0 +1,80 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AppSettings, PlatformId } from '../types';
+import { getPlatformAdapter } from '../platforms';
+
+interface FailoverSettingsProps {
+  settings: AppSettings;
+  onUpdateSettings: (newSettings: Partial<AppSettings>) => void;
+}
+
+const FailoverSettings: React.FC<FailoverSettingsProps> = ({ settings, onUpdateSettings }) => {
+  const priority = settings.failoverPriority;
+
+  const movePlatform = (platform: PlatformId, direction: 'up' | 'down') => {
+    const index = priority.indexOf(platform);
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (index < 0 || target < 0 || target >= priority.length) return;
+    const next = [...priority];
+    [next[index], next[target]] = [next[target], next[index]];
+    onUpdateSettings({ failoverPriority: next });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="absolute right-12 top-0 bg-black/90 border border-white/10 rounded-xl p-3 flex flex-col gap-2 w-56 shadow-2xl z-50 backdrop-blur-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-1 border-b border-white/5 pb-2">
+        <span className="text-[10px] uppercase font-bold text-neutral-500">Troca Automática</span>
+      </div>
+
+      <button
+        onClick={() => onUpdateSettings({ autoFailover: !settings.autoFailover })}
+        className={`text-[9px] py-1.5 rounded uppercase font-bold tracking-wider transition-colors ${settings.autoFailover ? 'bg-white/10 text-white' : 'bg-white/5 text-neutral-500 hover:text-white'}`}
+      >
+        Failover: {settings.autoFailover ? 'ON' : 'OFF'}
+      </button>
+      <span className="text-[9px] text-neutral-500">
+        Quando a plataforma atual estiver offline, o player muda para a primeira plataforma ao vivo desta lista.
+      </span>
+
+      <div className="flex flex-col gap-1">
+        {priority.map((platform, index) => {
+          const adapter = getPlatformAdapter(platform);
+          if (!adapter) return null;
+          return (
+            <div key={platform} className="flex items-center justify-between p-1.5 rounded bg-white/5">
+              <div className="flex items-center gap-2">
+                <span className="w-3 text-[9px] font-mono text-neutral-600">{index + 1}</span>
+                <adapter.Icon className="w-3.5 h-3.5" />
+                <span className="text-[10px] font-bold uppercase tracking-wider text-white/80">{adapter.label}</span>
+              </div>
+              <div className="flex items-center">
+                <button
+                  onClick={() => movePlatform(platform, 'up')}
+                  disabled={index === 0}
+                  className="p-1 text-neutral-400 hover:text-white disabled:opacity-30 disabled:hover:text-neutral-400"
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 19V5"/><path d="m5 12 7-7 7 7"/></svg>
+                </button>
+                <button
+                  onClick={() => movePlatform(platform, 'down')}
+                  disabled={index === priority.length - 1}
+                  className="p-1 text-neutral-400 hover:text-white disabled:opacity-30 disabled:hover:text-neutral-400"
+                >
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 5v14"/><path d="m19 12-7 7-7-7"/></svg>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default FailoverSettings;
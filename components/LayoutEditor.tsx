@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CustomLayoutRow, LayoutDefinition, LayoutMode } from '../types';
+import { createCustomLayout } from '../layout';
+
+interface LayoutEditorProps {
+  isOpen: boolean;
+  layout: LayoutDefinition | null; // Custom layout being edited, or null for a new one
+  slotNames: string[]; // Visible streamers, in display order
+  takenIds: LayoutMode[];
+  onSave: (layout: LayoutDefinition) => void;
+  onDelete: (id: LayoutMode) => void;
+  onClose: () => void;
+}
+
+const MAX_ROWS = 4;
+const MAX_CELLS_PER_ROW = 4;
+const MIN_SHARE = 0.1; // Smallest row/cell a splitter can shrink to
+
+const normalize = <T extends { weight: number }>(items: T[]): T[] => {
+  const total = items.reduce((sum, item) => sum + item.weight, 0) || 1;
+  return items.map(item => ({ ...item, weight: item.weight / total }));
+};
+
+// Moves the split between items `index` and `index + 1` to `position` (0–1 of the whole)
+const moveSplit = <T extends { weight: number }>(items: T[], index: number, position: number): T[] => {
+  const start = items.slice(0, index).reduce((sum, item) => sum + item.weight, 0);
+  const pair = items[index].weight + items[index + 1].weight;
+  const first = Math.min(pair - MIN_SHARE, Math.max(MIN_SHARE, position - start));
+  return items.map((item, i) => {
+    if (i === index) return { ...item, weight: first };
+    if (i === index + 1) return { ...item, weight: pair - first };
+    return item;
+  });
+};
+
+// Starting point for a new layout: the first player on top, the rest below it
+const createTemplate = (slotCount: number): CustomLayoutRow[] => slotCount <= 1
+  ? [{ weight: 1, cells: [{ slot: 0, weight: 1 }] }]
+  : [
+      { weight: 0.6, cells: [{ slot: 0, weight: 1 }] },
+      {
+        weight: 0.4,
+        cells: normalize(Array.from({ length: Math.min(slotCount - 1, MAX_CELLS_PER_ROW) }, (_, i) => ({ slot: i + 1, weight: 1 }))),
+      },
+    ];
+
+const LayoutEditor: React.FC<LayoutEditorProps> = ({ isOpen, layout, slotNames, takenIds, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [rows, setRows] = useState<CustomLayoutRow[]>([]);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(layout?.label ?? 'Meu Layout');
+    setRows(layout?.rows
+      ? normalize(layout.rows.map(r => ({ ...r, cells: normalize(r.cells) })))
+      : createTemplate(slotNames.length));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, layout]);
+
+  const cellCount = rows.reduce((sum, row) => sum + row.cells.length, 0);
+  const usedSlots = rows.flatMap(row => row.cells.map(cell => cell.slot));
+  const slotOptions = Math.max(slotNames.length, cellCount);
+  const unassigned = slotNames.filter((_, i) => !usedSlots.includes(i));
+
+  const nextFreeSlot = () => {
+    for (let i = 0; ; i++) if (!usedSlots.includes(i)) return i;
+  };
+
+  // --- Splitters ---
+
+  const startDrag = (e: React.PointerEvent, rowIndex: number, cellIndex?: number) => {
+    e.preventDefault();
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const bounds = canvas.getBoundingClientRect();
+
+    const handleMove = (ev: PointerEvent) => {
+      if (cellIndex === undefined) {
+        setRows(prev => moveSplit(prev, rowIndex, (ev.clientY - bounds.top) / bounds.height));
+      } else {
+        setRows(prev => prev.map((row, i) => i === rowIndex
+          ? { ...row, cells: moveSplit(row.cells, cellIndex, (ev.clientX - bounds.left) / bounds.width) }
+          : row));
+      }
+    };
+    // A cancelled pointer (touch taken over by scrolling, lost capture) ends the drag too
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  };
+
+  // --- Editing ---
+
+  // Picking a slot that another cell shows swaps the two cells
+  const assignSlot = (rowIndex: number, cellIndex: number, slot: number) => {
+    const current = rows[rowIndex].cells[cellIndex].slot;
+    setRows(prev => prev.map((row, r) => ({
+      ...row,
+      cells: row.cells.map((cell, c) => {
+        if (r === rowIndex && c === cellIndex) return { ...cell, slot };
+        if (cell.slot === slot) return { ...cell, slot: current };
+        return cell;
+      }),
+    })));
+  };
+
+  const splitCell = (rowIndex: number, cellIndex: number) => {
+    setRows(prev => prev.map((row, r) => {
+      if (r !== rowIndex) return row;
+      const cell = row.cells[cellIndex];
+      const half = { slot: cell.slot, weight: cell.weight / 2 };
+      return {
+        ...row,
+        cells: [...row.cells.slice(0, cellIndex), half, { slot: nextFreeSlot(), weight: cell.weight / 2 }, ...row.cells.slice(cellIndex + 1)],
+      };
+    }));
+  };
+
+  const removeCell = (rowIndex: number, cellIndex: number) => {
+    setRows(prev => normalize(prev
+      .map((row, r) => r === rowIndex ? { ...row, cells: normalize(row.cells.filter((_, c) => c !== cellIndex)) } : row)
+      .filter(row => row.cells.length > 0)));
+  };
+
+  const addRow = () => {
+    setRows(prev => normalize([...prev, { weight: 1 / (prev.length || 1), cells: [{ slot: nextFreeSlot(), weight: 1 }] }]));
+  };
+
+  const handleSave = () => {
+    const label = name.trim();
+    if (!label || rows.length === 0) return;
+    onSave(layout
+      ? { ...layout, label, rows }
+      : createCustomLayout(label, rows, takenIds));
+  };
+
+  // Cumulative offsets for positioning cells and splitters
+  let rowTop = 0;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-3xl max-h-[90dvh] flex flex-col bg-black/90 border border-white/10 rounded-2xl shadow-[0_10px_40px_rgba(0,0,0,0.8)] overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between gap-4 px-5 py-3 border-b border-white/5">
+              <span className="text-[11px] font-black uppercase tracking-widest text-white">
+                {layout ? 'Editar Layout' : 'Novo Layout'}
+              </span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nome do layout"
+                className="flex-1 max-w-xs px-3 py-1.5 rounded bg-white/5 border border-white/10 text-xs text-white outline-none focus:border-white/30"
+              />
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 flex flex-col gap-3">
+              {/* Canvas */}
+              <div ref={canvasRef} className="relative w-full aspect-video bg-neutral-950 border border-white/10 rounded-lg overflow-hidden select-none">
+                {rows.map((row, r) => {
+                  const top = rowTop;
+                  rowTop += row.weight;
+                  let cellLeft = 0;
+
+                  return (
+                    <React.Fragment key={r}>
+                      {row.cells.map((cell, c) => {
+                        const left = cellLeft;
+                        cellLeft += cell.weight;
+                        return (
+                          <div
+                            key={c}
+                            className="absolute p-1"
+                            style={{ left: `${left * 100}%`, top: `${top * 100}%`, width: `${cell.weight * 100}%`, height: `${row.weight * 100}%` }}
+                          >
+                            <div className="w-full h-full flex flex-col items-center justify-center gap-2 rounded bg-white/5 border border-white/10">
+                              <select
+                                value={cell.slot}
+                                onChange={(e) => assignSlot(r, c, Number(e.target.value))}
+                                className="max-w-full bg-black border border-white/10 rounded px-1.5 py-1 text-[10px] text-white outline-none"
+                              >
+                                {Array.from({ length: slotOptions }, (_, i) => (
+                                  <option key={i} value={i}>{i + 1}. {slotNames[i] || 'Vazio'}</option>
+                                ))}
+                              </select>
+                              <div className="flex gap-1">
+                                <button
+                                  onClick={() => splitCell(r, c)}
+                                  disabled={row.cells.length >= MAX_CELLS_PER_ROW}
+                                  className="px-1.5 py-0.5 rounded text-[9px] uppercase font-bold tracking-wider text-neutral-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                  title="Dividir célula"
+                                >
+                                  Dividir
+                                </button>
+                                <button
+                                  onClick={() => removeCell(r, c)}
+                                  disabled={cellCount <= 1}
+                                  className="px-1.5 py-0.5 rounded text-[9px] uppercase font-bold tracking-wider text-neutral-400 hover:text-red-300 hover:bg-red-500/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                  title="Remover célula"
+                                >
+                                  Remover
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+
+                      {/* Column splitters */}
+                      {row.cells.slice(0, -1).map((_, c) => {
+                        const x = row.cells.slice(0, c + 1).reduce((sum, cell) => sum + cell.weight, 0);
+                        return (
+                          <div
+                            key={`split-${c}`}
+                            onPointerDown={(e) => startDrag(e, r, c)}
+                            className="absolute w-2 -ml-1 cursor-col-resize z-10 group"
+                            style={{ left: `${x * 100}%`, top: `${top * 100}%`, height: `${row.weight * 100}%` }}
+                          >
+                            <div className="mx-auto w-0.5 h-full bg-white/20 group-hover:bg-white/70 transition-colors" />
+                          </div>
+                        );
+                      })}
+
+                      {/* Row splitter */}
+                      {r < rows.length - 1 && (
+                        <div
+                          onPointerDown={(e) => startDrag(e, r)}
+                          className="absolute left-0 w-full h-2 -mt-1 cursor-row-resize z-10 group flex items-center"
+                          style={{ top: `${rowTop * 100}%` }}
+                        >
+                          <div className="w-full h-0.5 bg-white/20 group-hover:bg-white/70 transition-colors" />
+                        </div>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <button
+                  onClick={addRow}
+                  disabled={rows.length >= MAX_ROWS}
+                  className="text-[9px] px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded uppercase font-bold tracking-wider transition-colors disabled:opacity-30"
+                >
+                  Adicionar Linha
+                </button>
+                <span className="text-[10px] text-neutral-500 text-right">
+                  {unassigned.length > 0
+                    ? `Sem célula: ${unassigned.join(', ')}. Enquanto faltar célula, o layout usa a grade automática.`
+                    : 'Arraste as divisórias para redimensionar linhas e colunas.'}
+                </span>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-between gap-2 px-5 py-3 border-t border-white/5">
+              <div>
+                {layout && (
+                  <button
+                    onClick={() => onDelete(layout.id)}
+                    className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    Excluir
+                  </button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider text-neutral-400 hover:text-white transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!name.trim()}
+                  className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider bg-white text-black rounded-full hover:scale-105 active:scale-95 transition-transform disabled:opacity-30 disabled:hover:scale-100"
+                >
+                  Salvar
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default LayoutEditor;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { LayoutDefinition, LayoutMode, SpotlightStrip } from '../types';
+import { BUILT_IN_LAYOUTS } from '../layout';
+
+interface LayoutMenuProps {
+  layoutMode: LayoutMode;
+  customLayouts: LayoutDefinition[];
+  onSelect: (id: LayoutMode) => void;
+  onEdit: (layout: LayoutDefinition | null) => void; // null creates a new layout
+  spotlightStrip: SpotlightStrip;
+  onSpotlightStripChange: (strip: SpotlightStrip) => void;
+}
+
+const LayoutMenu: React.FC<LayoutMenuProps> = ({ layoutMode, customLayouts, onSelect, onEdit, spotlightStrip, onSpotlightStripChange }) => {
+  const renderEntry = (layout: LayoutDefinition, isCustom: boolean) => (
+    <div key={layout.id} className="flex items-center gap-1">
+      <button
+        onClick={() => onSelect(layout.id)}
+        className={`flex-1 text-left px-2 py-1.5 rounded text-xs font-medium truncate transition-colors ${layoutMode === layout.id ? 'bg-white text-black' : 'text-neutral-300 hover:text-white hover:bg-white/10'}`}
+      >
+        {layout.label}
+      </button>
+      {isCustom && (
+        <button
+          onClick={() => onEdit(layout)}
+          className="p-1.5 rounded text-neutral-500 hover:text-white hover:bg-white/10 transition-colors"
+          title="Editar layout"
+        >
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/></svg>
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="absolute right-12 top-0 bg-black/90 border border-white/10 rounded-xl p-3 flex flex-col gap-2 w-56 shadow-2xl z-50 backdrop-blur-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-1 border-b border-white/5 pb-2">
+        <span className="text-[10px] uppercase font-bold text-neutral-500">Layouts</span>
+      </div>
+
+      <div className="flex flex-col gap-0.5">
+        {BUILT_IN_LAYOUTS.map(layout => renderEntry(layout, false))}
+      </div>
+
+      {customLayouts.length > 0 && (
+        <div className="flex flex-col gap-0.5 pt-2 border-t border-white/5">
+          <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-600 px-2 pb-1">Personalizados</span>
+          {customLayouts.map(layout => renderEntry(layout, true))}
+        </div>
+      )}
+
+      <button
+        onClick={() => onEdit(null)}
+        className="text-[9px] py-1.5 mt-1 bg-white/5 hover:bg-white/10 rounded uppercase font-bold tracking-wider transition-colors"
+      >
+        Novo Layout
+      </button>
+
+      {/* Where the other players go while one is expanded */}
+      <div className="flex items-center justify-between gap-2 pt-2 border-t border-white/5">
+        <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-600">Miniaturas</span>
+        <div className="flex gap-1">
+          {([['bottom', 'Embaixo'], ['side', 'Lateral']] as [SpotlightStrip, string][]).map(([strip, label]) => (
+            <button
+              key={strip}
+              onClick={() => onSpotlightStripChange(strip)}
+              className={`px-2 py-1 rounded text-[9px] uppercase font-bold tracking-wider transition-colors ${spotlightStrip === strip ? 'bg-white/10 text-white' : 'bg-white/5 text-neutral-500 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default LayoutMenu;
@@ -1,31 +1,76 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { StreamerConfig, Platform } from '../types';
-import { STREAMERS, TwitchIcon, YouTubeIcon, KickIcon, CUSTOM_MERGED_CHAT_URL } from '../constants';
+import { StreamerConfig, Platform, PlatformId, ChatSource, ChatDockPosition, ChatDockSettings } from '../types';
+import { CHAT_MIN_HEIGHT } from '../utils/storage';
+import { getPlatformAdapter, isRegisteredPlatform } from '../platforms';
+import ChatFeed from './ChatFeed';
+import ChatFrame from './ChatFrame';
 
 interface MultiChatProps {
-  activeStreamers: { [key: string]: Platform };
+  streamers: StreamerConfig[];
+  activeStreamers: { [key: string]: PlatformId };
   isOpen: boolean;
   onClose: () => void;
   width: number;
   onResize: (newWidth: number) => void;
   disableResize?: boolean; // New prop to lock width
+  position: ChatDockPosition;
+  dock: ChatDockSettings; // Width clamp, bottom height and floating window
+  onDockChange: (patch: Partial<ChatDockSettings>) => void;
+  selectedStreamerId: string; // 'all' for the merged view
+  onSelectStreamer: (id: string) => void;
+  chatOverrides: Record<string, PlatformId>; // Chat platform chosen independently of the video
+  onChatPlatformChange: (streamerId: string, platform: PlatformId) => void;
 }
 
-const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose, width, onResize, disableResize = false }) => {
-  const [selectedStreamerId, setSelectedStreamerId] = useState<string>('all');
-  const [isResizing, setIsResizing] = useState(false);
-  
-  // State to store chat platform overrides (independent of video platform)
-  const [chatOverrides, setChatOverrides] = useState<Record<string, Platform>>({});
+const EDGE_HANDLES: Record<Exclude<ChatDockPosition, 'floating'>, string> = {
+  right: 'left-0 top-0 bottom-0 w-2 -ml-1 cursor-col-resize',
+  left: 'right-0 top-0 bottom-0 w-2 -mr-1 cursor-col-resize',
+  bottom: 'top-0 left-0 right-0 h-2 -mt-1 cursor-row-resize',
+};
+
+const DRAG_CURSORS: Record<ChatDockPosition | 'move' | 'corner', string> = {
+  right: 'cursor-col-resize',
+  left: 'cursor-col-resize',
+  bottom: 'cursor-row-resize',
+  floating: 'cursor-move',
+  move: 'cursor-move',
+  corner: 'cursor-nwse-resize',
+};
+
+// The close arrows point towards the edge the panel slides out to
+const CLOSE_ICON_ROTATION: Record<ChatDockPosition, string> = {
+  right: '',
+  left: 'rotate-180',
+  bottom: 'rotate-90',
+  floating: '',
+};
+
+const MultiChat: React.FC<MultiChatProps> = ({
+  streamers,
+  activeStreamers,
+  isOpen,
+  onClose,
+  width,
+  onResize,
+  disableResize = false,
+  position,
+  dock,
+  onDockChange,
+  selectedStreamerId,
+  onSelectStreamer,
+  chatOverrides,
+  onChatPlatformChange
+}) => {
+  // Active pointer gesture: resizing the docked edge, or moving / resizing the floating window
+  const [drag, setDrag] = useState<{ mode: 'edge' | 'move' | 'corner'; startX: number; startY: number } | null>(null);
+  const dragOrigin = useRef(dock.floating);
   
   // State for the mini dropdown selector
   const [openSelectorId, setOpenSelectorId] = useState<string | null>(null);
   const [selectorPos, setSelectorPos] = useState<{ top: number; left: number } | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const hostname = typeof window !== 'undefined' ? window.location.hostname : '';
-
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -48,33 +93,52 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
   }, [openSelectorId]);
 
   // Resize Handlers
-  const startResizing = useCallback(() => {
+  const startDrag = (mode: 'edge' | 'move' | 'corner') => (e: React.MouseEvent) => {
     if (disableResize) return;
-    setIsResizing(true);
-  }, [disableResize]);
+    e.preventDefault();
+    dragOrigin.current = dock.floating;
+    setDrag({ mode, startX: e.clientX, startY: e.clientY });
+  };
 
-  const stopResizing = useCallback(() => {
-    setIsResizing(false);
+  const stopDrag = useCallback(() => {
+    setDrag(null);
   }, []);
 
+  const clampWidth = useCallback((value: number) => Math.min(dock.maxWidth, Math.max(dock.minWidth, Math.round(value))), [dock.minWidth, dock.maxWidth]);
+
   const resize = useCallback((mouseMoveEvent: MouseEvent) => {
-    if (isResizing && !disableResize) {
-        const newWidth = window.innerWidth - mouseMoveEvent.clientX;
-        // Clamp width between 300px and 800px
-        if (newWidth > 300 && newWidth < 800) {
-            onResize(newWidth);
-        }
+    if (!drag || disableResize) return;
+    const { clientX, clientY } = mouseMoveEvent;
+    const origin = dragOrigin.current;
+
+    if (drag.mode === 'move') {
+        // Keep the title bar reachable so the window can always be dragged back
+        onDockChange({ floating: {
+            ...origin,
+            x: Math.min(window.innerWidth - 80, Math.max(0, origin.x + clientX - drag.startX)),
+            y: Math.min(window.innerHeight - 40, Math.max(0, origin.y + clientY - drag.startY)),
+        } });
+    } else if (drag.mode === 'corner') {
+        onDockChange({ floating: {
+            ...origin,
+            width: clampWidth(origin.width + clientX - drag.startX),
+            height: Math.min(window.innerHeight, Math.max(CHAT_MIN_HEIGHT, Math.round(origin.height + clientY - drag.startY))),
+        } });
+    } else if (position === 'bottom') {
+        onDockChange({ height: Math.min(window.innerHeight - 120, Math.max(CHAT_MIN_HEIGHT, window.innerHeight - clientY)) });
+    } else {
+        onResize(clampWidth(position === 'left' ? clientX : window.innerWidth - clientX));
     }
-  }, [isResizing, disableResize, onResize]);
+  }, [drag, disableResize, position, clampWidth, onResize, onDockChange]);
 
   useEffect(() => {
     window.addEventListener("mousemove", resize);
-    window.addEventListener("mouseup", stopResizing);
+    window.addEventListener("mouseup", stopDrag);
     return () => {
       window.removeEventListener("mousemove", resize);
-      window.removeEventListener("mouseup", stopResizing);
+      window.removeEventListener("mouseup", stopDrag);
     };
-  }, [resize, stopResizing]);
+  }, [resize, stopDrag]);
 
   // Helper to determine which platform to show for chat
   const getChatPlatform = (streamerId: string) => {
@@ -82,85 +146,86 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
       return chatOverrides[streamerId] || activeStreamers[streamerId] || Platform.Twitch;
   };
 
-  const getChatUrl = (streamer: StreamerConfig, platform: Platform) => {
-    const parents = new Set<string>();
-    
-    parents.add('viictornmultistream.vercel.app');
-    parents.add('www.viictornmultistream.vercel.app');
-
-    if (hostname) {
-        parents.add(hostname);
-        if (hostname.startsWith('www.')) {
-            parents.add(hostname.replace('www.', ''));
-        } else {
-            parents.add(`www.${hostname}`);
-        }
-    }
-    parents.add('localhost');
-    parents.add('127.0.0.1');
-
-    const parentParams = Array.from(parents).map(d => `parent=${d}`).join('&');
-    const channelId = streamer.channels[platform];
-    if (!channelId) return 'about:blank';
-
-    switch (platform) {
-      case Platform.Twitch:
-        return `https://www.twitch.tv/embed/${channelId}/chat?${parentParams}&darkpopout`;
-      case Platform.YouTube:
-        return ''; 
-      case Platform.Kick:
-        return `https://kick.com/${channelId}/chatroom`;
-      default:
-        return '';
-    }
+  const ChatIcon = ({ platform, className }: { platform: PlatformId; className?: string }) => {
+    const adapter = getPlatformAdapter(platform);
+    return adapter ? <adapter.Icon className={className || "w-3 h-3"} /> : null;
   };
 
-  const ChatIcon = ({ platform, className }: { platform: Platform; className?: string }) => {
-    switch(platform) {
-      case Platform.Twitch: return <TwitchIcon className={className || "w-3 h-3"} />;
-      case Platform.YouTube: return <YouTubeIcon className={className || "w-3 h-3"} />;
-      case Platform.Kick: return <KickIcon className={className || "w-3 h-3"} />;
-      default: return null;
-    }
-  };
+  const getPlatformColor = (p: PlatformId) => getPlatformAdapter(p)?.colors.brand || '#ffffff';
 
-  const getPlatformColor = (p: Platform) => {
-      switch(p) {
-          case Platform.Twitch: return '#9146FF';
-          case Platform.YouTube: return '#FF0000';
-          case Platform.Kick: return '#53FC18';
-          default: return '#ffffff';
-      }
-  };
+  // Every streamer feeds the MIX tab from its current chat platform
+  const chatSources: ChatSource[] = streamers
+    .map(s => ({ streamerId: s.id, platform: getChatPlatform(s.id), channelId: (s.channels[getChatPlatform(s.id)] || '').trim() }))
+    .filter(source => source.channelId);
 
   // Find the streamer object for the currently open dropdown
-  const activeDropdownStreamer = STREAMERS.find(s => s.id === openSelectorId);
+  const activeDropdownStreamer = streamers.find(s => s.id === openSelectorId);
+
+  // Floating window geometry is re-fitted to the current viewport on every render
+  const floatingWidth = Math.min(dock.maxWidth, Math.max(dock.minWidth, dock.floating.width));
+  const floatingHeight = Math.min(window.innerHeight, dock.floating.height);
+  const panel = {
+    right: { hidden: { x: '100%' }, shown: { x: 0 }, style: { width }, className: 'inset-y-0 right-0 h-full border-l' },
+    left: { hidden: { x: '-100%' }, shown: { x: 0 }, style: { width }, className: 'inset-y-0 left-0 h-full border-r' },
+    bottom: { hidden: { y: '100%' }, shown: { y: 0 }, style: { height: dock.height }, className: 'inset-x-0 bottom-0 border-t' },
+    floating: {
+      hidden: { opacity: 0, scale: 0.95 },
+      shown: { opacity: 1, scale: 1 },
+      style: {
+        left: Math.max(0, Math.min(dock.floating.x, window.innerWidth - floatingWidth)),
+        top: Math.max(0, Math.min(dock.floating.y, window.innerHeight - floatingHeight)),
+        width: floatingWidth,
+        height: floatingHeight,
+      },
+      className: 'border rounded-xl overflow-hidden',
+    },
+  }[position];
 
   return (
     <AnimatePresence>
       {isOpen && (
         <>
             {/* Resizing Overlay (to prevent iframe interaction while dragging) */}
-            {isResizing && <div className="fixed inset-0 z-[100] cursor-col-resize" />}
+            {drag && <div className={`fixed inset-0 z-[100] ${DRAG_CURSORS[drag.mode === 'edge' ? position : drag.mode]}`} />}
             
             <motion.div 
-            initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }}
+            initial={panel.hidden} animate={panel.shown} exit={panel.hidden}
             transition={{ type: 'spring', damping: 30, stiffness: 300 }}
-            style={{ width: width }}
-            className="fixed inset-y-0 right-0 h-full bg-[#090909] border-l border-white/10 z-50 flex flex-col shadow-[0_0_50px_rgba(0,0,0,0.5)]"
+            style={panel.style}
+            className={`fixed bg-[#090909] border-white/10 z-50 flex flex-col shadow-[0_0_50px_rgba(0,0,0,0.5)] ${panel.className}`}
             >
             {/* DRAG HANDLE */}
-            {!disableResize && (
+            {!disableResize && position !== 'floating' && (
                 <div 
-                    onMouseDown={startResizing}
-                    className="absolute left-0 top-0 bottom-0 w-2 -ml-1 cursor-col-resize hover:bg-white/10 transition-colors z-50 group flex items-center justify-center"
+                    onMouseDown={startDrag('edge')}
+                    className={`absolute ${EDGE_HANDLES[position]} hover:bg-white/10 transition-colors z-50 group flex items-center justify-center`}
                     title="Arrastar para ajustar o tamanho"
                 >
                     {/* Visual indicator for drag handle */}
-                    <div className="h-12 w-[3px] bg-white/10 group-hover:bg-blue-500 rounded-full transition-colors shadow-[0_0_10px_rgba(0,0,0,0.5)]" />
+                    <div className={`${position === 'bottom' ? 'w-12 h-[3px]' : 'h-12 w-[3px]'} bg-white/10 group-hover:bg-blue-500 rounded-full transition-colors shadow-[0_0_10px_rgba(0,0,0,0.5)]`} />
                 </div>
             )}
 
+            {/* FLOATING WINDOW: title bar to move it, corner to resize it */}
+            {position === 'floating' && !disableResize && (
+                <>
+                    <div
+                        onMouseDown={startDrag('move')}
+                        className="flex flex-none h-4 items-center justify-center cursor-move bg-black/60 border-b border-white/5 group"
+                        title="Arrastar para mover"
+                    >
+                        <div className="w-10 h-[3px] bg-white/20 group-hover:bg-blue-500 rounded-full transition-colors" />
+                    </div>
+                    <div
+                        onMouseDown={startDrag('corner')}
+                        className="absolute right-0 bottom-0 w-4 h-4 cursor-nwse-resize z-50 text-white/30 hover:text-blue-500 transition-colors"
+                        title="Arrastar para ajustar o tamanho"
+                    >
+                        <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5"><path d="M14 6v8H6"/><path d="M14 10v4h-4"/></svg>
+                    </div>
+                </>
+            )}
+
             {/* HEADER AREA - LIQUID GLASS EFFECT */}
             <div className="flex flex-none h-14 relative z-20 overflow-hidden items-center">
                 {/* Liquid Glass Background */}
@@ -170,7 +235,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                 <div className="relative flex-1 flex items-end px-2 gap-1 overflow-x-auto no-scrollbar pr-14 h-full pb-0">
                     {/* MIX TAB */}
                     <button
-                        onClick={() => setSelectedStreamerId('all')}
+                        onClick={() => onSelectStreamer('all')}
                         className={`
                             relative group flex flex-col items-center justify-center px-3 h-10 rounded-t-lg transition-all duration-300 flex-shrink-0
                             ${selectedStreamerId === 'all' ? 'text-white' : 'text-neutral-500 hover:text-neutral-300'}
@@ -196,7 +261,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                     <div className="w-[1px] h-4 mb-3 bg-white/10 mx-1 flex-shrink-0" />
 
                     {/* INDIVIDUAL TABS */}
-                    {STREAMERS.map((streamer) => {
+                    {streamers.map((streamer) => {
                         const isActive = selectedStreamerId === streamer.id;
                         const currentChatPlatform = getChatPlatform(streamer.id);
                         const isSelectorOpen = openSelectorId === streamer.id;
@@ -204,7 +269,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                         return (
                             <div key={streamer.id} className="relative flex-shrink-0">
                                 <button
-                                    onClick={() => setSelectedStreamerId(streamer.id)}
+                                    onClick={() => onSelectStreamer(streamer.id)}
                                     className={`
                                         relative group flex items-center justify-center gap-2 px-3 h-10 rounded-t-lg transition-all duration-300 min-w-[90px]
                                         ${isActive ? 'text-white' : 'text-neutral-500 hover:text-neutral-300'}
@@ -275,7 +340,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                     >
                         <svg 
                             width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"
-                            className="group-hover:scale-110 transition-transform duration-200 group-hover:text-lime-400"
+                            className={`group-hover:scale-110 transition-transform duration-200 group-hover:text-lime-400 ${CLOSE_ICON_ROTATION[position]}`}
                         >
                             <path d="M13 5l7 7-7 7"/>
                             <path d="M6 5l7 7-7 7"/>
@@ -291,41 +356,13 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                     className="w-full h-full flex flex-col"
                     style={{ display: selectedStreamerId === 'all' ? 'flex' : 'none' }}
                 >
-                    {CUSTOM_MERGED_CHAT_URL ? (
-                        <iframe src={CUSTOM_MERGED_CHAT_URL} className="w-full h-full border-none" title="Unified Chat" loading="lazy" />
-                    ) : (
-                        STREAMERS.map((streamer) => {
-                        // Use the chat platform (override or active)
-                        const platform = getChatPlatform(streamer.id);
-                        const url = getChatUrl(streamer, platform);
-                        
-                        return (
-                            <div key={`mix-${streamer.id}`} className="flex-1 relative w-full min-h-0 border-b border-white/5 last:border-0 overflow-hidden group">
-                                <div className="absolute top-1 right-2 z-10 flex items-center gap-1.5 pointer-events-none opacity-40 group-hover:opacity-100 transition-opacity">
-                                    <ChatIcon platform={platform} className="w-2.5 h-2.5 text-white" />
-                                    <span className="text-[9px] font-bold uppercase text-white shadow-black drop-shadow-md">
-                                        {streamer.name}
-                                    </span>
-                                </div>
-                            {platform === Platform.YouTube ? (
-                                <div className="absolute inset-0 flex flex-col items-center justify-center bg-[#0F0F0F]">
-                                    <span className="text-[9px] font-bold text-neutral-600 uppercase mb-2">Chat do YouTube (Pop-out necessário)</span>
-                                    <a href={streamer.channels[Platform.YouTube]?.startsWith('UC') ? `https://youtube.com/channel/${streamer.channels[Platform.YouTube]}` : `https://youtube.com/watch?v=${streamer.channels[Platform.YouTube]}`} target="_blank" rel="noreferrer" className="px-3 py-1 bg-white/5 hover:bg-white/10 text-[9px] text-neutral-400 uppercase rounded transition">Abrir</a>
-                                </div>
-                            ) : (
-                                <iframe src={url} className="w-full h-full border-none block" title={`${streamer.name} Chat Mix`} loading="lazy" />
-                            )}
-                            </div>
-                        );
-                        })
-                    )}
+                    <ChatFeed streamers={streamers} sources={chatSources} onSelectStreamer={onSelectStreamer} />
                 </div>
 
                 {/* INDIVIDUAL VIEWS */}
-                {STREAMERS.map((streamer) => {
+                {streamers.map((streamer) => {
                     // Use the chat platform (override or active)
                     const platform = getChatPlatform(streamer.id);
-                    const url = getChatUrl(streamer, platform);
                     const isVisible = selectedStreamerId === streamer.id;
 
                     return (
@@ -334,15 +371,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                             className="w-full h-full bg-[#090909]"
                             style={{ display: isVisible ? 'block' : 'none' }}
                         >
-                            {platform === Platform.YouTube ? (
-                                <div className="h-full flex flex-col items-center justify-center p-6 text-center text-neutral-500 bg-[#0F0F0F]">
-                                    <YouTubeIcon className="w-12 h-12 mb-4 opacity-20" />
-                                    <p className="text-xs mb-4">O YouTube não permite incorporar o chat diretamente.</p>
-                                    <a href={streamer.channels[Platform.YouTube]?.startsWith('UC') ? `https://youtube.com/channel/${streamer.channels[Platform.YouTube]}` : `https://youtube.com/watch?v=${streamer.channels[Platform.YouTube]}`} target="_blank" rel="noreferrer" className="px-5 py-2 bg-neutral-800 hover:bg-neutral-700 text-white text-xs font-bold uppercase rounded transition">Abrir Chat Externo</a>
-                                </div>
-                            ) : (
-                                <iframe src={url} className="w-full h-full border-none" title={`${streamer.name} Chat Tab`} />
-                            )}
+                            <ChatFrame streamer={streamer} platform={platform} />
                         </div>
                     );
                 })}
@@ -367,8 +396,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                         <div className="px-2 py-1 text-[8px] font-bold text-neutral-500 uppercase tracking-widest border-b border-white/5 mb-1">
                             Fonte do Chat
                         </div>
-                        {Object.keys(activeDropdownStreamer.channels).map((platformKey) => {
-                            const p = platformKey as Platform;
+                        {Object.keys(activeDropdownStreamer.channels).filter(isRegisteredPlatform).map((p) => {
                             // Skip platforms that don't have a configured channel
                             if (!activeDropdownStreamer.channels[p]) return null;
                             
@@ -380,7 +408,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                                     key={p}
                                     onClick={(e) => {
                                         e.stopPropagation();
-                                        setChatOverrides(prev => ({ ...prev, [activeDropdownStreamer.id]: p }));
+                                        onChatPlatformChange(activeDropdownStreamer.id, p);
                                         setOpenSelectorId(null);
                                     }}
                                     className={`
@@ -389,7 +417,7 @@ const MultiChat: React.FC<MultiChatProps> = ({ activeStreamers, isOpen, onClose,
                                     `}
                                 >
                                     <ChatIcon platform={p} className="w-3 h-3 flex-shrink-0" />
-                                    <span className="text-[10px] font-bold uppercase tracking-wider">{p}</span>
+                                    <span className="text-[10px] font-bold uppercase tracking-wider">{getPlatformAdapter(p)?.label || p}</span>
                                     {isSelected && <div className="ml-auto w-1 h-1 rounded-full" style={{ backgroundColor: pColor, boxShadow: `0 0 5px ${pColor}` }} />}
                                 </button>
                             )
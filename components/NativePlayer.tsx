@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PlayerEvent } from '../types';
+import { createMediaEngine, MediaEngine, QualityLevel } from '../utils/mediaEngine';
+
+interface NativePlayerProps {
+  src: string;
+  title: string;
+  onLoad: () => void;
+  isMuted: boolean;
+  onToggleMute: () => void;
+  volume: number; // 0–100
+  volumeGain: number; // 0–1 multiplier (ducking)
+  onVolumeChange: (volume: number) => void;
+  onPlayerEvent: (event: PlayerEvent) => void;
+}
+
+// Behind the live edge by more than this (seconds) counts as "delayed"
+const LIVE_EDGE_TOLERANCE = 6;
+
+const NativePlayer: React.FC<NativePlayerProps> = ({
+  src,
+  title,
+  onLoad,
+  isMuted,
+  onToggleMute,
+  volume,
+  volumeGain,
+  onVolumeChange,
+  onPlayerEvent
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const engineRef = useRef<MediaEngine | null>(null);
+
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [currentLevel, setCurrentLevel] = useState(-1);
+  const [isLive, setIsLive] = useState(false);
+  const [latency, setLatency] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Attach the engine for this source and tear it down on change/unmount
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let cancelled = false;
+    setError(null);
+    setLevels([]);
+    setLatency(null);
+
+    const handleError = (message: string) => {
+      console.warn(`Playback error for “${src}”:`, message);
+      setError(message);
+      onPlayerEvent('error');
+    };
+
+    createMediaEngine(video, src, handleError)
+      .then(engine => {
+        if (cancelled) {
+          engine.destroy();
+          return;
+        }
+        engineRef.current = engine;
+        video.play().catch(() => { /* Autoplay blocked; controls stay available */ });
+      })
+      .catch(err => handleError(err instanceof Error ? err.message : String(err)));
+
+    return () => {
+      cancelled = true;
+      engineRef.current?.destroy();
+      engineRef.current = null;
+    };
+  }, [src]);
+
+  // Poll engine stats (levels appear after the manifest loads, latency drifts over time)
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const engine = engineRef.current;
+      if (!engine) return;
+      setLevels(prev => {
+        const next = engine.getLevels();
+        return prev.length === next.length ? prev : next;
+      });
+      setCurrentLevel(engine.getCurrentLevel());
+      setIsLive(engine.isLive());
+      setLatency(engine.getLatency());
+    }, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = isMuted;
+    video.volume = (volume / 100) * volumeGain;
+  }, [isMuted, volume, volumeGain]);
+
+  const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    // Dragging to zero mutes but keeps the last audible level for unmuting
+    if (value === 0) {
+      if (!isMuted) onToggleMute();
+      return;
+    }
+    onVolumeChange(value);
+    if (isMuted) onToggleMute();
+  };
+
+  const handleLevelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const index = Number(e.target.value);
+    engineRef.current?.setLevel(index);
+    setCurrentLevel(index);
+  };
+
+  const isBehindLive = latency !== null && latency > LIVE_EDGE_TOLERANCE;
+
+  return (
+    <div className="relative w-full h-full bg-black">
+      <video
+        ref={videoRef}
+        title={title}
+        className="w-full h-full object-contain bg-black"
+        playsInline
+        autoPlay
+        muted={isMuted}
+        onLoadedData={onLoad}
+        onError={() => { setError('media error'); onPlayerEvent('error'); }}
+        onPlaying={() => onPlayerEvent('playing')}
+        onTimeUpdate={() => onPlayerEvent('progress')}
+        onWaiting={() => onPlayerEvent('buffering')}
+        onPause={() => onPlayerEvent('paused')}
+        onEnded={() => onPlayerEvent('ended')}
+      />
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/80 text-center p-4 pointer-events-none">
+          <span className="text-[11px] font-black uppercase tracking-widest text-white/70">Falha ao reproduzir o stream</span>
+          <span className="text-[9px] font-mono text-white/30 break-all">{error}</span>
+        </div>
+      )}
+
+      {/* Player Controls (bottom right, revealed with the slot HUD) */}
+      <div
+        className="absolute bottom-4 right-4 z-30 flex items-center gap-2 px-2 py-1.5 rounded-full bg-black/60 backdrop-blur-md border border-white/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {isLive && (
+          <button
+            onClick={() => engineRef.current?.seekToLiveEdge()}
+            disabled={!isBehindLive}
+            title={isBehindLive ? 'Ir para o ao vivo' : 'No ao vivo'}
+            className="flex items-center gap-1.5 px-1.5 text-[9px] uppercase font-bold tracking-wider text-white/80 hover:text-white disabled:cursor-default"
+          >
+            <span className={`w-1.5 h-1.5 rounded-full ${isBehindLive ? 'bg-neutral-500' : 'bg-red-500 animate-pulse'}`} />
+            {isBehindLive ? 'Atrasado' : 'Ao Vivo'}
+            {latency !== null && <span className="font-mono text-white/40 normal-case">{latency.toFixed(1)}s</span>}
+          </button>
+        )}
+
+        {levels.length > 1 && (
+          <select
+            value={currentLevel}
+            onChange={handleLevelChange}
+            title="Qualidade"
+            className="bg-transparent text-[9px] uppercase font-bold tracking-wider text-white/80 outline-none cursor-pointer"
+          >
+            <option value={-1} className="bg-black">Auto</option>
+            {levels.map(level => (
+              <option key={level.index} value={level.index} className="bg-black">{level.label}</option>
+            ))}
+          </select>
+        )}
+
+        <button
+          onClick={onToggleMute}
+          title={isMuted ? 'Ativar som' : 'Silenciar'}
+          className="w-6 h-6 flex items-center justify-center text-white/70 hover:text-white transition-colors"
+        >
+          {isMuted ? (
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><line x1="22" x2="16" y1="9" y2="15"/><line x1="16" x2="22" y1="9" y2="15"/></svg>
+          ) : (
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14"/></svg>
+          )}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={isMuted ? 0 : volume}
+          onChange={handleVolumeChange}
+          title="Volume"
+          className="w-16 accent-white cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NativePlayer;
@@ -1,13 +1,14 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Platform } from '../types';
-import { TwitchIcon, YouTubeIcon, KickIcon } from '../constants';
+import { LiveStatus, PlatformId } from '../types';
+import { getPlatformAdapter } from '../platforms';
 
 interface PlatformSelectorProps {
-  currentPlatform: Platform;
-  availablePlatforms: Platform[];
-  onSelect: (platform: Platform) => void;
+  currentPlatform: PlatformId;
+  availablePlatforms: PlatformId[];
+  onSelect: (platform: PlatformId) => void;
   isOpen: boolean;
+  liveStatuses?: { [key in PlatformId]?: LiveStatus };
 }
 
 const PlatformSelector: React.FC<PlatformSelectorProps> = ({
@@ -15,27 +16,8 @@ const PlatformSelector: React.FC<PlatformSelectorProps> = ({
   availablePlatforms,
   onSelect,
   isOpen,
+  liveStatuses = {},
 }) => {
-  const getIcon = (p: Platform, className: string) => {
-    switch (p) {
-      case Platform.Twitch: return <TwitchIcon className={className} />;
-      case Platform.YouTube: return <YouTubeIcon className={className} />;
-      case Platform.Kick: return <KickIcon className={className} />;
-    }
-  };
-
-  const getActiveStyle = (p: Platform) => {
-    switch (p) {
-      case Platform.Twitch: 
-        return 'text-[#9146FF] bg-[#9146FF]/10 border-[#9146FF]/30';
-      case Platform.YouTube: 
-        return 'text-[#FF0000] bg-[#FF0000]/10 border-[#FF0000]/30';
-      case Platform.Kick: 
-        return 'text-[#53FC18] bg-[#53FC18]/10 border-[#53FC18]/30';
-      default: return 'text-white bg-white/10';
-    }
-  };
-
   return (
     <AnimatePresence>
       {isOpen && (
@@ -47,6 +29,8 @@ const PlatformSelector: React.FC<PlatformSelectorProps> = ({
         >
           {availablePlatforms.map((p) => {
             const isActive = currentPlatform === p;
+            const adapter = getPlatformAdapter(p);
+            if (!adapter) return null;
             return (
               <button
                 key={p}
@@ -57,19 +41,26 @@ const PlatformSelector: React.FC<PlatformSelectorProps> = ({
                 className={`
                   relative group flex items-center gap-2 px-3 py-2 rounded-lg transition-all duration-200 border
                   ${isActive 
-                    ? getActiveStyle(p)
+                    ? adapter.activeClassName
                     : 'bg-transparent border-transparent text-neutral-400 hover:bg-white/5 hover:text-white'
                   }
                 `}
               >
                 <div className={`w-4 h-4 flex-shrink-0 opacity-80 ${isActive ? 'opacity-100' : 'group-hover:opacity-100'}`}>
-                  {getIcon(p, "w-full h-full")}
+                  <adapter.Icon className="w-full h-full" />
                 </div>
 
                 <span className="text-[10px] font-bold uppercase tracking-wider flex-1 text-left">
-                    {p}
+                    {adapter.label}
                 </span>
 
+                {liveStatuses[p] === 'live' && (
+                    <span className="text-[8px] font-black uppercase tracking-wider text-red-400">Ao Vivo</span>
+                )}
+                {liveStatuses[p] === 'offline' && (
+                    <span className="text-[8px] font-bold uppercase tracking-wider text-neutral-600">Off</span>
+                )}
+
                 {isActive && (
                     <div className="w-1.5 h-1.5 rounded-full bg-current shadow-[0_0_8px_currentColor]" />
                 )}
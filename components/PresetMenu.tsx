@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { WorkspacePreset } from '../types';
+import { DEFAULT_PRESET_ID } from '../utils/presets';
+
+interface PresetMenuProps {
+  presets: WorkspacePreset[];
+  onApply: (id: string) => void; // DEFAULT_PRESET_ID applies the built-in preset
+  onCreate: (name: string) => void;
+  onOverwrite: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onDelete: (id: string) => void;
+}
+
+const iconButton = 'p-1 text-neutral-400 hover:text-white disabled:opacity-30 disabled:hover:text-neutral-400';
+
+const PresetMenu: React.FC<PresetMenuProps> = ({ presets, onApply, onCreate, onOverwrite, onRename, onMove, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+  };
+
+  const startRename = (preset: WorkspacePreset) => {
+    setRenamingId(preset.id);
+    setRenameValue(preset.name);
+  };
+
+  const commitRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      className="absolute right-12 top-0 bg-black/90 border border-white/10 rounded-xl p-3 flex flex-col gap-2 w-64 shadow-2xl z-50 backdrop-blur-xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-1 border-b border-white/5 pb-2">
+        <span className="text-[10px] uppercase font-bold text-neutral-500">Presets</span>
+      </div>
+
+      <button
+        onClick={() => onApply(DEFAULT_PRESET_ID)}
+        className="text-left px-2 py-1.5 rounded text-xs font-medium text-neutral-300 hover:text-white hover:bg-white/10 transition-colors"
+      >
+        Padrão
+      </button>
+
+      {presets.length > 0 && (
+        <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+          {presets.map((preset, index) => (
+            <div key={preset.id} className="group flex items-center gap-1 p-1 rounded bg-white/5">
+              {renamingId === preset.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded px-1.5 py-0.5 text-xs text-white outline-none focus:border-white/30"
+                />
+              ) : (
+                <button
+                  onClick={() => onApply(preset.id)}
+                  onDoubleClick={() => startRename(preset)}
+                  className="flex-1 min-w-0 text-left px-1 text-xs font-medium text-neutral-300 hover:text-white truncate transition-colors"
+                  title={preset.name}
+                >
+                  {preset.name}
+                </button>
+              )}
+
+              {pendingDeleteId === preset.id ? (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => { onDelete(preset.id); setPendingDeleteId(null); }}
+                    className="px-1.5 py-0.5 rounded text-[9px] uppercase font-bold tracking-wider text-red-400 hover:bg-red-500/10"
+                  >
+                    Excluir
+                  </button>
+                  <button onClick={() => setPendingDeleteId(null)} className={iconButton} title="Cancelar">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => onMove(preset.id, 'up')} disabled={index === 0} className={iconButton} title="Mover para cima">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 19V5"/><path d="m5 12 7-7 7 7"/></svg>
+                  </button>
+                  <button onClick={() => onMove(preset.id, 'down')} disabled={index === presets.length - 1} className={iconButton} title="Mover para baixo">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 5v14"/><path d="m19 12-7 7-7-7"/></svg>
+                  </button>
+                  <button onClick={() => startRename(preset)} className={iconButton} title="Renomear">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/></svg>
+                  </button>
+                  <button onClick={() => onOverwrite(preset.id)} className={iconButton} title="Sobrescrever com a configuração atual">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"/><polyline points="17 21 17 13 7 13 7 21"/><polyline points="7 3 7 8 15 8"/></svg>
+                  </button>
+                  <button onClick={() => setPendingDeleteId(preset.id)} className={iconButton} title="Excluir">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 pt-2 border-t border-white/5">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+          placeholder="Nome do preset..."
+          className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded px-2 py-1 text-xs text-white placeholder:text-neutral-600 outline-none focus:border-white/30"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="px-2 py-1 bg-white/5 hover:bg-white/10 rounded text-[9px] uppercase font-bold tracking-wider transition-colors disabled:opacity-30"
+        >
+          Salvar
+        </button>
+      </div>
+      <span className="text-[9px] text-neutral-500">
+        Salva os players visíveis, ordem, plataformas, layout, chat e modos atuais.
+      </span>
+    </motion.div>
+  );
+};
+
+export default PresetMenu;
@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { StreamerConfig, Platform, PlatformId } from '../types';
+import { STREAMERS } from '../constants';
+import { getRegisteredPlatforms } from '../platforms';
+
+interface RosterEditorProps {
+  isOpen: boolean;
+  roster: StreamerConfig[];
+  onSave: (roster: StreamerConfig[]) => void;
+  onClose: () => void;
+}
+
+// Builds a URL-safe id from the display name, avoiding collisions with existing entries
+const createStreamerId = (name: string, takenIds: string[]) => {
+  const base = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'streamer';
+
+  let id = base;
+  let suffix = 2;
+  while (takenIds.includes(id)) {
+    id = `${base}_${suffix++}`;
+  }
+  return id;
+};
+
+const validateStreamer = (s: StreamerConfig): string | null => {
+  if (!s.name.trim()) return 'Nome obrigatório';
+  if (!/^#[0-9a-fA-F]{6}$/.test(s.color)) return 'Cor inválida (use #RRGGBB)';
+  const configured = getRegisteredPlatforms().filter(a => s.channels[a.id]?.trim());
+  if (configured.length === 0) return 'Configure pelo menos um canal';
+  if (!s.channels[s.defaultPlatform]?.trim()) return 'A plataforma padrão precisa de um canal';
+  for (const adapter of configured) {
+    const error = adapter.validateChannelId(s.channels[adapter.id]!.trim());
+    if (error) return error;
+  }
+  return null;
+};
+
+const RosterEditor: React.FC<RosterEditorProps> = ({ isOpen, roster, onSave, onClose }) => {
+  const [draft, setDraft] = useState<StreamerConfig[]>(roster);
+  const [selectedId, setSelectedId] = useState<string | null>(roster[0]?.id ?? null);
+
+  // Re-sync the working copy every time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(roster);
+      setSelectedId(roster[0]?.id ?? null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const selected = draft.find(s => s.id === selectedId) || null;
+  const errors = draft.map(validateStreamer);
+  const hasErrors = errors.some(Boolean);
+
+  const updateSelected = (patch: Partial<StreamerConfig>) => {
+    if (!selected) return;
+    setDraft(prev => prev.map(s => s.id === selected.id ? { ...s, ...patch } : s));
+  };
+
+  const updateChannel = (platform: PlatformId, value: string) => {
+    if (!selected) return;
+    updateSelected({ channels: { ...selected.channels, [platform]: value } });
+  };
+
+  const handleAdd = () => {
+    const id = createStreamerId('novo streamer', draft.map(s => s.id));
+    const fresh: StreamerConfig = {
+      id,
+      name: 'Novo Streamer',
+      avatarUrl: '',
+      defaultPlatform: Platform.Twitch,
+      color: '#ffffff',
+      channels: { [Platform.Twitch]: '' },
+    };
+    setDraft(prev => [...prev, fresh]);
+    setSelectedId(id);
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const name = `${selected.name} (cópia)`;
+    const copy: StreamerConfig = {
+      ...selected,
+      id: createStreamerId(name, draft.map(s => s.id)),
+      name,
+      channels: { ...selected.channels },
+    };
+    const index = draft.findIndex(s => s.id === selected.id);
+    setDraft(prev => [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const index = draft.findIndex(s => s.id === selected.id);
+    const next = draft.filter(s => s.id !== selected.id);
+    setDraft(next);
+    setSelectedId(next[Math.min(index, next.length - 1)]?.id ?? null);
+  };
+
+  const handleFactoryReset = () => {
+    setDraft(STREAMERS);
+    setSelectedId(STREAMERS[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    // Trim channel ids and drop empty ones so the rest of the app only sees configured platforms
+    const cleaned = draft.map(s => ({
+      ...s,
+      name: s.name.trim(),
+      channels: Object.fromEntries(
+        Object.entries(s.channels)
+          .map(([p, c]) => [p, ((c as string | undefined) || '').trim()])
+          .filter(([, c]) => c)
+      ) as StreamerConfig['channels'],
+    }));
+    onSave(cleaned);
+  };
+
+  const selectedError = selected ? validateStreamer(selected) : null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-2xl max-h-[90dvh] flex flex-col bg-black/90 border border-white/10 rounded-2xl shadow-[0_10px_40px_rgba(0,0,0,0.8)] overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-3 border-b border-white/5">
+              <span className="text-[11px] font-black uppercase tracking-widest text-white">Streamers</span>
+              <button
+                onClick={handleFactoryReset}
+                className="text-[9px] uppercase font-bold tracking-wider text-neutral-500 hover:text-white transition-colors"
+                title="Voltar para a lista original"
+              >
+                Restaurar Padrão
+              </button>
+            </div>
+
+            <div className="flex-1 flex flex-col md:flex-row min-h-0">
+              {/* Roster List */}
+              <div className="md:w-56 flex-shrink-0 border-b md:border-b-0 md:border-r border-white/5 p-2 flex flex-col gap-1 overflow-y-auto">
+                {draft.map((s, i) => (
+                  <button
+                    key={s.id}
+                    onClick={() => setSelectedId(s.id)}
+                    className={`flex items-center gap-2 p-2 rounded text-left transition-colors ${s.id === selectedId ? 'bg-white/10' : 'bg-white/5 hover:bg-white/10'}`}
+                  >
+                    <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: s.color }} />
+                    <span className="text-xs font-medium truncate flex-1">{s.name || 'Sem nome'}</span>
+                    {errors[i] && <span className="w-1.5 h-1.5 rounded-full bg-red-500" title={errors[i] || ''} />}
+                  </button>
+                ))}
+
+                <div className="grid grid-cols-3 gap-1 mt-2 pt-2 border-t border-white/5">
+                  <button onClick={handleAdd} className="text-[9px] py-1.5 bg-white/5 hover:bg-white/10 rounded uppercase font-bold tracking-wider transition-colors">
+                    Novo
+                  </button>
+                  <button onClick={handleDuplicate} disabled={!selected} className="text-[9px] py-1.5 bg-white/5 hover:bg-white/10 rounded uppercase font-bold tracking-wider transition-colors disabled:opacity-30">
+                    Duplicar
+                  </button>
+                  <button onClick={handleDelete} disabled={!selected} className="text-[9px] py-1.5 bg-white/5 hover:bg-red-500/20 hover:text-red-300 rounded uppercase font-bold tracking-wider transition-colors disabled:opacity-30">
+                    Excluir
+                  </button>
+                </div>
+              </div>
+
+              {/* Streamer Form */}
+              <div className="flex-1 p-4 overflow-y-auto">
+                {selected ? (
+                  <div className="flex flex-col gap-4">
+                    <label className="flex flex-col gap-1">
+                      <span className="text-[9px] uppercase font-bold text-neutral-500 tracking-widest">Nome</span>
+                      <input
+                        value={selected.name}
+                        onChange={(e) => updateSelected({ name: e.target.value })}
+                        className="bg-white/5 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-white/30"
+                      />
+                    </label>
+
+                    <label className="flex flex-col gap-1">
+                      <span className="text-[9px] uppercase font-bold text-neutral-500 tracking-widest">Cor de Destaque</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={/^#[0-9a-fA-F]{6}$/.test(selected.color) ? selected.color : '#ffffff'}
+                          onChange={(e) => updateSelected({ color: e.target.value })}
+                          className="w-8 h-8 bg-transparent border border-white/10 rounded cursor-pointer"
+                        />
+                        <input
+                          value={selected.color}
+                          onChange={(e) => updateSelected({ color: e.target.value })}
+                          className="flex-1 bg-white/5 border border-white/10 rounded px-3 py-2 text-xs font-mono text-white outline-none focus:border-white/30"
+                        />
+                      </div>
+                    </label>
+
+                    <div className="flex flex-col gap-1">
+                      <span className="text-[9px] uppercase font-bold text-neutral-500 tracking-widest">Canais</span>
+                      {getRegisteredPlatforms().map(({ id: p, label, channelPlaceholder }) => (
+                        <div key={p} className="flex items-center gap-2">
+                          <button
+                            onClick={() => updateSelected({ defaultPlatform: p })}
+                            className={`w-20 text-[9px] py-2 rounded uppercase font-bold tracking-wider transition-colors ${selected.defaultPlatform === p ? 'bg-white text-black' : 'bg-white/5 text-neutral-400 hover:text-white'}`}
+                            title="Definir como plataforma padrão"
+                          >
+                            {label}
+                          </button>
+                          <input
+                            value={selected.channels[p] || ''}
+                            onChange={(e) => updateChannel(p, e.target.value)}
+                            placeholder={channelPlaceholder}
+                            className="flex-1 bg-white/5 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-white/30 placeholder:text-neutral-600"
+                          />
+                        </div>
+                      ))}
+                      <span className="text-[9px] text-neutral-600 mt-1">Clique na plataforma para torná-la a padrão.</span>
+                    </div>
+
+                    {selectedError && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-red-400">{selectedError}</span>
+                    )}
+                  </div>
+                ) : (
+                  <div className="h-full flex items-center justify-center text-xs text-neutral-500">
+                    Nenhum streamer selecionado.
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="flex justify-end gap-2 px-5 py-3 border-t border-white/5">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider text-neutral-400 hover:text-white transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={hasErrors}
+                className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider bg-white text-black rounded-full hover:scale-105 active:scale-95 transition-transform disabled:opacity-30 disabled:hover:scale-100"
+              >
+                Salvar
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default RosterEditor;
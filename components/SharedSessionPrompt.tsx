@@ -0,0 +1,85 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SessionSnapshot, StreamerConfig } from '../types';
+import { getLayoutDefinition } from '../layout';
+
+interface SharedSessionPromptProps {
+  session: SessionSnapshot | null;
+  streamers: StreamerConfig[];
+  onApply: (mode: 'visit' | 'save') => void;
+  onDismiss: () => void;
+}
+
+const SharedSessionPrompt: React.FC<SharedSessionPromptProps> = ({ session, streamers, onApply, onDismiss }) => {
+  return (
+    <AnimatePresence>
+      {session && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            className="w-full max-w-sm flex flex-col gap-4 p-5 bg-black/90 border border-white/10 rounded-2xl shadow-[0_10px_40px_rgba(0,0,0,0.8)]"
+          >
+            <div className="flex flex-col gap-1">
+              <span className="text-[11px] font-black uppercase tracking-widest text-white">Sessão Compartilhada</span>
+              <span className="text-xs text-neutral-400">Alguém te enviou a visualização dele. Como deseja abrir?</span>
+            </div>
+
+            {/* Summary */}
+            <div className="flex flex-col gap-1">
+              {session.streamerOrder.map(id => {
+                const s = streamers.find(str => str.id === id);
+                if (!s) return null;
+                const isVisible = session.visibleStreamers.includes(id);
+                return (
+                  <div key={id} className="flex items-center justify-between p-2 rounded bg-white/5">
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                      <span className={`text-xs font-medium ${isVisible ? 'text-white' : 'text-neutral-600 line-through'}`}>{s.name}</span>
+                    </div>
+                    <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-500">
+                      {session.streamerStates[id] || s.defaultPlatform}
+                      {session.expandedStreamerId === id ? ' · Expandido' : ''}
+                    </span>
+                  </div>
+                );
+              })}
+              <span className="text-[9px] uppercase font-bold tracking-wider text-neutral-500 mt-1">
+                Layout: {getLayoutDefinition(session.layoutMode)?.label ?? session.layoutMode}
+              </span>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={() => onApply('visit')}
+                className="py-2.5 text-[10px] uppercase font-bold tracking-wider bg-white text-black rounded-full hover:scale-[1.02] active:scale-95 transition-transform"
+              >
+                Só Nesta Visita
+              </button>
+              <button
+                onClick={() => onApply('save')}
+                className="py-2.5 text-[10px] uppercase font-bold tracking-wider bg-white/10 text-white rounded-full hover:bg-white/20 transition-colors"
+              >
+                Substituir Minha Configuração
+              </button>
+              <button
+                onClick={onDismiss}
+                className="py-1.5 text-[9px] uppercase font-bold tracking-wider text-neutral-500 hover:text-white transition-colors"
+              >
+                Ignorar
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SharedSessionPrompt;
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { SHORTCUT_ACTIONS, DEFAULT_SHORTCUTS } from '../constants';
+import { formatKey, isBindableKey, normalizeKey, rebindShortcut } from '../utils/shortcuts';
+
+interface ShortcutsOverlayProps {
+  isOpen: boolean;
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ isOpen, bindings, onChange, onClose }) => {
+  // Action waiting for its new key
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) setCapturing(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = normalizeKey(e);
+
+      if (!capturing) {
+        if (key === 'Escape' || key === bindings.showShortcuts) {
+          e.preventDefault();
+          onClose();
+        }
+        return;
+      }
+
+      e.preventDefault();
+      if (key === 'Escape') {
+        setCapturing(null);
+      } else if (key === 'Backspace' || key === 'Delete') {
+        onChange({ ...bindings, [capturing]: '' });
+        setCapturing(null);
+      } else if (isBindableKey(key)) {
+        onChange(rebindShortcut(bindings, capturing, key));
+        setCapturing(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, capturing, bindings, onChange, onClose]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md max-h-[90dvh] flex flex-col bg-black/90 border border-white/10 rounded-2xl shadow-[0_10px_40px_rgba(0,0,0,0.8)] overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-3 border-b border-white/5">
+              <span className="text-[11px] font-black uppercase tracking-widest text-white">Atalhos de Teclado</span>
+              <button
+                onClick={() => onChange(DEFAULT_SHORTCUTS)}
+                className="text-[9px] uppercase font-bold tracking-wider text-neutral-500 hover:text-white transition-colors"
+              >
+                Restaurar Padrão
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-1">
+              {SHORTCUT_ACTIONS.map(({ id, label }) => (
+                <div key={id} className="flex items-center justify-between gap-3 p-2 rounded bg-white/5">
+                  <span className="text-xs text-neutral-300">{label}</span>
+                  <button
+                    onClick={() => setCapturing(capturing === id ? null : id)}
+                    title="Clique e pressione a nova tecla"
+                    className={`min-w-[2.5rem] px-2 py-1 rounded border text-[10px] font-mono font-bold transition-colors ${capturing === id ? 'bg-white text-black border-white animate-pulse' : 'border-white/10 text-white hover:bg-white/10'}`}
+                  >
+                    {capturing === id ? '...' : formatKey(bindings[id])}
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-between gap-2 px-5 py-3 border-t border-white/5">
+              <span className="text-[10px] text-neutral-500">
+                {capturing
+                  ? 'Pressione a nova tecla · Esc cancela · Delete remove'
+                  : 'Clique numa tecla para remapear. Atalhos pausam enquanto você digita.'}
+              </span>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-[10px] uppercase font-bold tracking-wider bg-white text-black rounded-full hover:scale-105 active:scale-95 transition-transform"
+              >
+                Fechar
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ShortcutsOverlay;
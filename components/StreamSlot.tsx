@@ -1,32 +1,83 @@
-import React, { useState, useMemo, useEffect, useRef } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { StreamerConfig, Platform } from '../types';
+import { StreamerConfig, PlatformId, LiveStatusMap, PlayerEvent, PlayerState, ChatOverlaySettings } from '../types';
+import { getPlatformAdapter, getEmbedContext, isRegisteredPlatform } from '../platforms';
 import PlatformSelector from './PlatformSelector';
+import NativePlayer from './NativePlayer';
+import ChatOverlay from './ChatOverlay';
+import usePlayerWatchdog from '../hooks/usePlayerWatchdog';
 
 interface StreamSlotProps {
   streamer: StreamerConfig;
-  currentPlatform: Platform;
-  onPlatformChange: (platform: Platform) => void;
+  currentPlatform: PlatformId;
+  onPlatformChange: (platform: PlatformId) => void;
   isExpanded: boolean;
   onToggleExpand: () => void;
-  isOtherExpanded: boolean;
+  isThumbnail: boolean; // Shown in the spotlight strip; a click swaps it into the spotlight
   isCinemaMode: boolean; 
   refreshKeyTrigger: number; 
   onHide: () => void; 
   isDragging: boolean; // Received from App to disable iframe interaction
+  isMuted: boolean;
+  onToggleMute: () => void;
+  isAudioFocused: boolean;
+  onSoloAudio: () => void;
+  volume: number; // 0–100, as set in the mixer
+  volumeGain: number; // 0–1 multiplier (ducking)
+  onVolumeChange: (volume: number) => void;
+  liveStatuses?: LiveStatusMap[string];
+  onPlayerStateChange: (state: PlayerState | null) => void; // null once the slot unmounts
+  chatPlatform: PlatformId; // Chat override, or the video platform
+  chatOverlay: ChatOverlaySettings;
+  onChatOverlayChange: (patch: Partial<ChatOverlaySettings>) => void;
 }
 
+const PLAYER_STATE_LIGHTS: Record<PlayerState, { label: string; className: string }> = {
+  loading: { label: 'Carregando', className: 'bg-white/60 animate-pulse' },
+  playing: { label: 'Reproduzindo', className: 'bg-red-500 shadow-[0_0_10px_rgba(255,0,0,0.8)] animate-pulse' },
+  buffering: { label: 'Buffering', className: 'bg-yellow-400 shadow-[0_0_10px_rgba(250,204,21,0.8)] animate-pulse' },
+  paused: { label: 'Pausado', className: 'bg-neutral-400' },
+  offline: { label: 'Offline', className: 'bg-neutral-600' },
+  ended: { label: 'Encerrado', className: 'bg-neutral-600' },
+  error: { label: 'Erro no player', className: 'bg-orange-500 shadow-[0_0_10px_rgba(249,115,22,0.8)]' },
+};
+
+// 'ready' only says the player is up; whether it plays is reported separately
+const applyPlayerEvent = (state: PlayerState, event: PlayerEvent): PlayerState => {
+  switch (event) {
+    case 'ready':
+      return state;
+    case 'playing':
+    case 'progress':
+      return 'playing';
+    default:
+      return event;
+  }
+};
+
 const StreamSlot: React.FC<StreamSlotProps> = ({ 
   streamer, 
   currentPlatform, 
   onPlatformChange,
   isExpanded,
   onToggleExpand,
-  isOtherExpanded,
+  isThumbnail,
   isCinemaMode,
   refreshKeyTrigger,
   onHide,
-  isDragging
+  isDragging,
+  isMuted,
+  onToggleMute,
+  isAudioFocused,
+  onSoloAudio,
+  volume,
+  volumeGain,
+  onVolumeChange,
+  liveStatuses,
+  onPlayerStateChange,
+  chatPlatform,
+  chatOverlay,
+  onChatOverlayChange
 }) => {
   const [isHovered, setIsHovered] = useState(false);
   const [isUserActive, setIsUserActive] = useState(false);
@@ -34,19 +85,24 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
   const [localRefreshKey, setLocalRefreshKey] = useState(0); 
   const [isLoading, setIsLoading] = useState(true);
   const [hoveredAction, setHoveredAction] = useState<string | null>(null);
+  const [playerState, setPlayerState] = useState<PlayerState>('loading');
   
   // Lazy Loading State
   const [isInView, setIsInView] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
   const activityTimerRef = useRef<number | null>(null);
 
+  // Mute state baked into the current embed URL. Live changes go through the
+  // player API when the platform has one, so the iframe is not reloaded.
+  const [embedMuted, setEmbedMuted] = useState(isMuted);
+  const isMutedRef = useRef(isMuted);
+  isMutedRef.current = isMuted;
+
   // Combine global and local refresh keys
   const effectiveRefreshKey = refreshKeyTrigger + localRefreshKey;
 
-  const hostname = typeof window !== 'undefined' ? window.location.hostname : '';
-  const origin = typeof window !== 'undefined' ? window.location.origin : '';
-
   // INTERSECTION OBSERVER FOR LAZY LOADING
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -72,9 +128,9 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
     // Only set loading state if we are actually going to render (in view)
     if (isInView) {
         setIsLoading(true);
-        // Reduced timeout to 1.5s for a snappier feel, relying on iframe onLoad for true completion
-        const timer = setTimeout(() => setIsLoading(false), 1500);
-        return () => clearTimeout(timer);
+        setPlayerState('loading');
+        // Any reload picks up the current mute state
+        setEmbedMuted(isMutedRef.current);
     }
   }, [currentPlatform, effectiveRefreshKey, isInView]);
 
@@ -119,10 +175,60 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
     };
   }, []);
 
+  const adapter = getPlatformAdapter(currentPlatform);
   const rawChannelId = streamer.channels[currentPlatform];
   const channelId = rawChannelId ? rawChannelId.trim() : '';
   const hasValidChannel = Boolean(channelId && channelId.length > 0);
 
+  // Automatic recovery for embeds that never load, error out or stall
+  const watchdog = usePlayerWatchdog({
+    enabled: isInView && hasValidChannel && Boolean(adapter),
+    loadKey: `${currentPlatform}-${effectiveRefreshKey}`,
+    onReload: () => setLocalRefreshKey(prev => prev + 1),
+  });
+  const { notifyEvent } = watchdog;
+
+  const handlePlayerEvent = useCallback((event: PlayerEvent) => {
+    notifyEvent(event);
+    setPlayerState(prev => applyPlayerEvent(prev, event));
+  }, [notifyEvent]);
+
+  // Player iframes post their events to this window; keep only the ones from our frame
+  useEffect(() => {
+    if (!adapter?.parsePlayerMessage) return;
+    const handleMessage = (e: MessageEvent) => {
+      const frame = iframeRef.current;
+      if (!frame || e.source !== frame.contentWindow) return;
+      const event = adapter.parsePlayerMessage?.(e.data, frame);
+      if (event) handlePlayerEvent(event);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [adapter, handlePlayerEvent]);
+
+  // A loaded player counts as playing until its events say otherwise. Embeds
+  // without events (e.g. Kick) fall back to the polled live status instead.
+  const handlePlayerLoaded = () => {
+    setIsLoading(false);
+    setPlayerState(prev => prev === 'loading' ? 'playing' : prev);
+    watchdog.notifyLoaded();
+  };
+
+  const reportsPlayerEvents = Boolean(adapter?.parsePlayerMessage) || adapter?.renderMode === 'native';
+  const hasMuteControl = adapter?.hasMuteControl !== false;
+  const displayedState: PlayerState = !reportsPlayerEvents && playerState === 'playing' && liveStatuses?.[currentPlatform] === 'offline'
+    ? 'offline'
+    : playerState;
+
+  const onPlayerStateChangeRef = useRef(onPlayerStateChange);
+  onPlayerStateChangeRef.current = onPlayerStateChange;
+
+  useEffect(() => {
+    onPlayerStateChangeRef.current(displayedState);
+  }, [displayedState]);
+
+  useEffect(() => () => onPlayerStateChangeRef.current(null), []);
+
   const handleReload = (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsLoading(true);
@@ -131,69 +237,50 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
 
   const handlePopout = (e: React.MouseEvent) => {
       e.stopPropagation();
-      let url = '';
-      switch (currentPlatform) {
-          case Platform.Twitch: url = `https://twitch.tv/${channelId}/popout`; break;
-          case Platform.YouTube: 
-            if (channelId.startsWith('UC')) {
-                url = `https://youtube.com/channel/${channelId}/live`;
-            } else {
-                url = `https://youtube.com/watch?v=${channelId}`;
-            }
-            break;
-          case Platform.Kick: url = `https://kick.com/${channelId}`; break;
-      }
+      const url = adapter && hasValidChannel ? adapter.buildPopoutUrl(channelId) : '';
       if (url) window.open(url, '_blank', 'width=1280,height=720');
   };
 
   const embedUrl = useMemo(() => {
-    if (!hasValidChannel || !channelId) return '';
-    const parents = new Set<string>();
-    parents.add('viictornmultistream.vercel.app');
-    parents.add('www.viictornmultistream.vercel.app');
-    if (hostname) {
-        parents.add(hostname);
-        if (hostname.startsWith('www.')) parents.add(hostname.replace('www.', ''));
-        else parents.add(`www.${hostname}`);
-    }
-    parents.add('localhost');
-    parents.add('127.0.0.1');
-
-    const parentQuery = Array.from(parents).map(p => `parent=${p}`).join('&');
-
-    switch (currentPlatform) {
-      case Platform.Twitch:
-        return `https://player.twitch.tv/?channel=${channelId.toLowerCase()}&${parentQuery}&muted=true&autoplay=true`;
-      case Platform.YouTube:
-        // Check if it looks like a Channel ID (starts with UC) or a specific Video ID
-        if (channelId.startsWith('UC')) {
-            // Live stream via Channel ID
-            return `https://www.youtube.com/embed/live_stream?channel=${channelId}&autoplay=1&mute=1&origin=${origin}`; 
-        } else {
-            // Specific Video ID
-            return `https://www.youtube.com/embed/${channelId}?autoplay=1&mute=1&origin=${origin}`;
-        }
-      case Platform.Kick:
-        return `https://player.kick.com/${channelId}?autoplay=true&muted=true`;
-      default:
-        return '';
+    if (!hasValidChannel || !channelId || !adapter) return '';
+    return adapter.buildEmbedUrl(channelId, getEmbedContext(), { muted: embedMuted });
+  }, [channelId, adapter, hasValidChannel, embedMuted]);
+
+  useEffect(() => {
+    const frame = iframeRef.current;
+    if (frame && adapter?.setMuted) {
+      adapter.setMuted(frame, isMuted);
+    } else {
+      setEmbedMuted(isMuted);
     }
-  }, [channelId, currentPlatform, hostname, hasValidChannel, origin]);
-
-  const getBadgeStyle = () => {
-    switch (currentPlatform) {
-        case Platform.Twitch: return 'border-[#9146FF] text-[#d6baff] bg-[#9146FF]/10 shadow-[0_0_15px_rgba(145,70,255,0.2)]';
-        case Platform.YouTube: return 'border-[#FF0000] text-[#ffbaba] bg-[#FF0000]/10 shadow-[0_0_15px_rgba(255,0,0,0.2)]';
-        case Platform.Kick: return 'border-[#53FC18] text-[#caffb8] bg-[#53FC18]/10 shadow-[0_0_15px_rgba(83,252,24,0.2)] text-shadow-sm';
-        default: return 'border-white/20 text-white bg-black/50';
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMuted]);
+
+  // Volume only changes through the player API; embeds without one keep their own level
+  const effectiveVolume = (volume / 100) * volumeGain;
+
+  useEffect(() => {
+    const frame = iframeRef.current;
+    if (frame && adapter?.setVolume) adapter.setVolume(frame, effectiveVolume);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [effectiveVolume]);
+
+  // The player may not have been listening yet when the state changed; re-sync once loaded
+  const handleFrameLoad = () => {
+    handlePlayerLoaded();
+    const frame = iframeRef.current;
+    if (!frame) return;
+    adapter?.subscribePlayerEvents?.(frame);
+    if (adapter?.setMuted && isMutedRef.current !== embedMuted) {
+      adapter.setMuted(frame, isMutedRef.current);
     }
+    if (adapter?.setVolume) adapter.setVolume(frame, effectiveVolume);
   };
 
-  if (isOtherExpanded) return null;
-
   // showControls is based on user activity.
   // Clicking the iframe triggers 'blur', which calls handleActivity(), setting isUserActive=true.
-  const showControls = isUserActive || showSelector;
+  // Thumbnails keep their player running but trade the HUD for the spotlight overlay.
+  const showControls = !isThumbnail && (isUserActive || showSelector);
 
   return (
     <div 
@@ -217,17 +304,33 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
          {hasValidChannel && embedUrl ? (
             isInView ? (
                 <>
-                    <iframe
-                        key={`${currentPlatform}-${effectiveRefreshKey}`} 
-                        src={embedUrl}
-                        title={`${streamer.name} - ${currentPlatform}`}
-                        className="w-full h-full border-none bg-black"
-                        onLoad={() => setIsLoading(false)}
-                        allowFullScreen
-                        sandbox="allow-modals allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox allow-presentation allow-forms allow-storage-access-by-user-activation"
-                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share; fullscreen; speaker; microphone"
-                        referrerPolicy="strict-origin-when-cross-origin"
-                    />
+                    {adapter?.renderMode === 'native' ? (
+                        <NativePlayer
+                            key={`${currentPlatform}-${effectiveRefreshKey}`}
+                            src={embedUrl}
+                            title={`${streamer.name} - ${currentPlatform}`}
+                            onLoad={handlePlayerLoaded}
+                            onPlayerEvent={handlePlayerEvent}
+                            isMuted={isMuted}
+                            onToggleMute={onToggleMute}
+                            volume={volume}
+                            volumeGain={volumeGain}
+                            onVolumeChange={onVolumeChange}
+                        />
+                    ) : (
+                        <iframe
+                            ref={iframeRef}
+                            key={`${currentPlatform}-${effectiveRefreshKey}`} 
+                            src={embedUrl}
+                            title={`${streamer.name} - ${currentPlatform}`}
+                            className="w-full h-full border-none bg-black"
+                            onLoad={handleFrameLoad}
+                            allowFullScreen
+                            sandbox="allow-modals allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox allow-presentation allow-forms allow-storage-access-by-user-activation"
+                            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share; fullscreen; speaker; microphone"
+                            referrerPolicy="strict-origin-when-cross-origin"
+                        />
+                    )}
                     <AnimatePresence>
                     {isLoading && (
                         <motion.div 
@@ -285,13 +388,69 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
          )}
       </div>
 
-      {/* 2. STATUS LIGHT */}
-      {(!isLoading && hasValidChannel && showControls && !isDragging && isInView) && (
-         <div className="absolute top-4 right-4 z-10 pointer-events-none transition-opacity duration-500">
-             <div className="w-2 h-2 rounded-full bg-red-500 shadow-[0_0_10px_rgba(255,0,0,0.8)] animate-pulse" />
+      {/* 2. STATUS LIGHT (always shown while recovering) */}
+      {watchdog.isRecovering && hasValidChannel && !isDragging && isInView ? (
+         <div className="absolute top-4 right-4 z-20 pointer-events-none flex items-center gap-1.5 px-2 py-1 rounded-full bg-black/60 backdrop-blur-md border border-amber-500/30">
+             <div className="w-2 h-2 rounded-full bg-amber-400 shadow-[0_0_10px_rgba(251,191,36,0.8)] animate-pulse" />
+             <span className="text-[8px] font-bold uppercase tracking-widest leading-none text-amber-200/90">
+                 Recuperando (tentativa {watchdog.attempt})
+             </span>
+         </div>
+      ) : (!isLoading && hasValidChannel && showControls && !isDragging && isInView) && (
+         <div
+            className="absolute top-2 right-2 z-30 p-2 transition-opacity duration-500"
+            onMouseEnter={() => setHoveredAction('status')}
+            onMouseLeave={() => setHoveredAction(null)}
+         >
+             <div className={`w-2 h-2 rounded-full ${PLAYER_STATE_LIGHTS[displayedState].className}`} />
+             <AnimatePresence>
+                 {hoveredAction === 'status' && (
+                     <motion.div
+                        initial={{ opacity: 0, x: 10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        className="absolute right-full top-1/2 -translate-y-1/2 mr-1 px-2 py-1 bg-black/90 border border-white/10 rounded-md whitespace-nowrap z-[70] pointer-events-none"
+                     >
+                        <span className="text-[10px] font-bold text-white uppercase tracking-wider">{PLAYER_STATE_LIGHTS[displayedState].label}</span>
+                     </motion.div>
+                 )}
+             </AnimatePresence>
+         </div>
+      )}
+
+      {/* AUDIO FOCUS INDICATOR (stays visible with the HUD hidden) */}
+      {isAudioFocused && !isDragging && (
+         <div className="absolute inset-0 z-10 pointer-events-none border-2 border-white/40">
+             <div className="absolute top-3 left-1/2 -translate-x-1/2 flex items-center gap-1.5 px-2 py-1 rounded-full bg-black/60 backdrop-blur-md border border-white/20 text-white/80">
+                 <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 14h3a2 2 0 0 1 2 2v3a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-7a9 9 0 0 1 18 0v7a2 2 0 0 1-2 2h-1a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h3"/></svg>
+                 <span className="text-[8px] font-bold uppercase tracking-widest leading-none">Solo</span>
+             </div>
          </div>
       )}
 
+      {/* CHAT OVERLAY (below the HUD, so its buttons stay reachable) */}
+      {chatOverlay.enabled && !isThumbnail && !isDragging && isInView && (
+         <ChatOverlay
+            streamer={streamer}
+            platform={chatPlatform}
+            settings={chatOverlay}
+            onChange={onChatOverlayChange}
+         />
+      )}
+
+      {/* THUMBNAIL OVERLAY (spotlight strip) */}
+      {isThumbnail && !isDragging && (
+         <button
+            onClick={(e) => { e.stopPropagation(); onToggleExpand(); }}
+            className="absolute inset-0 z-40 flex items-end justify-start p-2 bg-black/20 hover:bg-transparent transition-colors"
+            title={`Destacar ${streamer.name}`}
+         >
+             <span className="px-2 py-0.5 rounded-full bg-black/60 backdrop-blur-md border border-white/10 text-[9px] font-bold uppercase tracking-widest text-white/80 truncate">
+                 {streamer.name}
+             </span>
+         </button>
+      )}
+
       {/* 3. HUD LAYER */}
       <motion.div 
         initial={false}
@@ -322,6 +481,71 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
             onClick={(e) => e.stopPropagation()} // Prevent hiding when clicking container area of buttons
           >
               
+              {/* Mute Button */}
+              <div className="relative">
+                  <AnimatePresence>
+                    {hoveredAction === 'mute' && (
+                        <motion.div
+                            initial={{ opacity: 0, x: -10, scale: 0.9 }}
+                            animate={{ opacity: 1, x: 10, scale: 1 }}
+                            exit={{ opacity: 0, x: -10, scale: 0.9 }}
+                            className="absolute left-full top-1/2 -translate-y-1/2 ml-2 px-2 py-1 bg-black/90 border border-white/10 rounded-md whitespace-nowrap z-[70] pointer-events-none"
+                        >
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-white/90">{!hasMuteControl ? 'Som no player' : isMuted ? 'Ativar Som' : 'Silenciar'}</span>
+                        </motion.div>
+                    )}
+                  </AnimatePresence>
+                  <button 
+                    onClick={onToggleMute} 
+                    disabled={!hasMuteControl}
+                    onMouseEnter={() => setHoveredAction('mute')}
+                    onMouseLeave={() => setHoveredAction(null)}
+                    className={`
+                        w-8 h-8 flex items-center justify-center rounded-full backdrop-blur-md border transition-colors disabled:opacity-40
+                        ${isMuted 
+                            ? 'bg-black/60 border-white/20 text-white/70 hover:bg-white/10 hover:text-white' 
+                            : 'bg-white text-black border-white hover:bg-white/90'
+                        }
+                    `}
+                  >
+                    {isMuted ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><line x1="22" x2="16" y1="9" y2="15"/><line x1="16" x2="22" y1="9" y2="15"/></svg>
+                    ) : (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14"/></svg>
+                    )}
+                  </button>
+              </div>
+
+              {/* Solo Audio Button */}
+              <div className="relative">
+                  <AnimatePresence>
+                    {hoveredAction === 'solo' && (
+                        <motion.div
+                            initial={{ opacity: 0, x: -10, scale: 0.9 }}
+                            animate={{ opacity: 1, x: 10, scale: 1 }}
+                            exit={{ opacity: 0, x: -10, scale: 0.9 }}
+                            className="absolute left-full top-1/2 -translate-y-1/2 ml-2 px-2 py-1 bg-black/90 border border-white/10 rounded-md whitespace-nowrap z-[70] pointer-events-none"
+                        >
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-white/90">{isAudioFocused ? 'Sair do Solo' : 'Solo Áudio'}</span>
+                        </motion.div>
+                    )}
+                  </AnimatePresence>
+                  <button 
+                    onClick={onSoloAudio} 
+                    onMouseEnter={() => setHoveredAction('solo')}
+                    onMouseLeave={() => setHoveredAction(null)}
+                    className={`
+                        w-8 h-8 flex items-center justify-center rounded-full backdrop-blur-md border transition-colors
+                        ${isAudioFocused 
+                            ? 'bg-white text-black border-white hover:bg-white/90' 
+                            : 'bg-black/60 border-white/20 text-white/70 hover:bg-white/10 hover:text-white'
+                        }
+                    `}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 14h3a2 2 0 0 1 2 2v3a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-7a9 9 0 0 1 18 0v7a2 2 0 0 1-2 2h-1a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h3"/></svg>
+                  </button>
+              </div>
+
               {/* Hide Button */}
               <div className="relative">
                   <AnimatePresence>
@@ -370,6 +594,36 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
                   </button>
               </div>
 
+              {/* Chat Overlay Button */}
+              <div className="relative">
+                  <AnimatePresence>
+                    {hoveredAction === 'chat-overlay' && (
+                        <motion.div
+                            initial={{ opacity: 0, x: -10, scale: 0.9 }}
+                            animate={{ opacity: 1, x: 10, scale: 1 }}
+                            exit={{ opacity: 0, x: -10, scale: 0.9 }}
+                            className="absolute left-full top-1/2 -translate-y-1/2 ml-2 px-2 py-1 bg-black/90 border border-white/10 rounded-md whitespace-nowrap z-[70] pointer-events-none"
+                        >
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-white/90">{chatOverlay.enabled ? 'Ocultar Chat na Tela' : 'Chat na Tela'}</span>
+                        </motion.div>
+                    )}
+                  </AnimatePresence>
+                  <button 
+                    onClick={() => onChatOverlayChange({ enabled: !chatOverlay.enabled })} 
+                    onMouseEnter={() => setHoveredAction('chat-overlay')}
+                    onMouseLeave={() => setHoveredAction(null)}
+                    className={`
+                        w-8 h-8 flex items-center justify-center rounded-full backdrop-blur-md border transition-colors
+                        ${chatOverlay.enabled 
+                            ? 'bg-white text-black border-white hover:bg-white/90' 
+                            : 'bg-black/60 border-white/20 text-white/70 hover:bg-white/10 hover:text-white'
+                        }
+                    `}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
+                  </button>
+              </div>
+
               {/* Reload Button */}
               <div className="relative">
                   <AnimatePresence>
@@ -440,7 +694,8 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
                     <PlatformSelector 
                       isOpen={showSelector}
                       currentPlatform={currentPlatform}
-                      availablePlatforms={Object.keys(streamer.channels).map(k => k as Platform)}
+                      availablePlatforms={Object.keys(streamer.channels).filter(isRegisteredPlatform)}
+                      liveStatuses={liveStatuses}
                       onSelect={(p) => { onPlatformChange(p); setShowSelector(false); setIsLoading(true); setLocalRefreshKey(prev => prev + 1); }}
                     />
                   </div>
@@ -452,12 +707,12 @@ const StreamSlot: React.FC<StreamSlotProps> = ({
                       cursor-pointer select-none
                       flex items-center gap-2 px-3 py-1.5 rounded-full backdrop-blur-md border
                       transition-all duration-300 hover:scale-105 active:scale-95
-                      ${getBadgeStyle()}
+                      ${adapter ? adapter.badgeClassName : 'border-white/20 text-white bg-black/50'}
                     `}
                   >
-                    <div className={`w-1.5 h-1.5 rounded-full ${currentPlatform === Platform.Kick ? 'bg-[#53FC18]' : 'bg-current'} animate-pulse`} />
+                    <div className="w-1.5 h-1.5 rounded-full bg-current animate-pulse" style={adapter ? { backgroundColor: adapter.colors.brand } : undefined} />
                     <span className="text-[10px] font-bold uppercase tracking-widest leading-none pt-[1px]">
-                        {currentPlatform}
+                        {adapter ? adapter.label : currentPlatform}
                     </span>
                     <svg className={`w-3 h-3 transition-transform ${showSelector ? 'rotate-180' : ''}`} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M6 9l6 6 6-6"/></svg>
                   </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Platform, StreamerConfig } from './types';
+import { Platform, StreamerConfig, AppSettings, ChatDockSettings, ChatOverlaySettings, ShortcutAction, ShortcutBindings } from './types';
 
 // --- Official Brand Assets (SVG Components) ---
 
@@ -24,6 +24,43 @@ export const KickIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+export const TrovoIcon = ({ className }: { className?: string }) => (
+  <svg role="img" viewBox="0 0 24 24" className={className} fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <title>Trovo</title>
+    <path d="M2 3h20v6h-7v12H9V9H2Zm9 8v6l5-3Z"/>
+  </svg>
+);
+
+export const FacebookIcon = ({ className }: { className?: string }) => (
+  <svg role="img" viewBox="0 0 24 24" className={className} fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <title>Facebook</title>
+    <path d="M9.101 23.691v-7.98H6.627v-3.667h2.474v-1.58c0-4.085 1.848-5.978 5.858-5.978.401 0 .955.042 1.468.103a8.68 8.68 0 0 1 1.141.195v3.325a8.623 8.623 0 0 0-.653-.036 26.805 26.805 0 0 0-.733-.009c-.707 0-1.259.096-1.675.309a1.686 1.686 0 0 0-.679.622c-.258.42-.374.995-.374 1.752v1.297h3.919l-.386 2.103-.287 1.564h-3.246v8.245C19.396 23.238 24 18.179 24 12.044c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.628 3.874 10.35 9.101 11.647Z"/>
+  </svg>
+);
+
+export const RumbleIcon = ({ className }: { className?: string }) => (
+  <svg role="img" viewBox="0 0 24 24" className={className} fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <title>Rumble</title>
+    <path d="M4 5.2C4 2.9 6.5 1.5 8.5 2.6l11 6.4c2 1.2 2 4 0 5.2l-11 6.4c-2 1.1-4.5-.3-4.5-2.6Zm5 3.3v7l6-3.5Z"/>
+  </svg>
+);
+
+export const GenericEmbedIcon = ({ className }: { className?: string }) => (
+  <svg role="img" viewBox="0 0 24 24" className={className} fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" xmlns="http://www.w3.org/2000/svg">
+    <title>Embed</title>
+    <path d="m16 18 6-6-6-6"/>
+    <path d="m8 6-6 6 6 6"/>
+  </svg>
+);
+
+export const DirectStreamIcon = ({ className }: { className?: string }) => (
+  <svg role="img" viewBox="0 0 24 24" className={className} fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" xmlns="http://www.w3.org/2000/svg">
+    <title>HLS / DASH</title>
+    <circle cx="12" cy="12" r="2"/>
+    <path d="M16.24 7.76a6 6 0 0 1 0 8.49m-8.48-.01a6 6 0 0 1 0-8.49m11.31-2.82a10 10 0 0 1 0 14.14m-14.14 0a10 10 0 0 1 0-14.14"/>
+  </svg>
+);
+
 // Streamer Placeholders (Replace with official vector logos from press kits)
 export const StreamerLogoPlaceholder = ({ initial, className }: { initial: string; className?: string }) => (
   <div className={`flex items-center justify-center font-black ${className}`}>
@@ -33,10 +70,69 @@ export const StreamerLogoPlaceholder = ({ initial, className }: { initial: strin
 
 // --- Configuration ---
 
-// LINK DO SEU WIDGET DE CHAT UNIFICADO (BotRix, SocialStream, etc.)
-// Se preenchido, a aba "MIX" carregará este iframe ao invés da pilha.
-// Exemplo: 'https://widget.botrix.live/chat?...'
-export const CUSTOM_MERGED_CHAT_URL = ''; 
+export const DEFAULT_SETTINGS: AppSettings = {
+  performanceMode: false,
+  cinemaMode: false,
+  streamsVisible: true,
+  chatWidth: 420,
+  duckOthers: false,
+  duckLevel: 30,
+  autoFailover: false,
+  failoverPriority: [Platform.Twitch, Platform.Kick, Platform.YouTube],
+  spotlightStrip: 'bottom',
+};
+
+export const DEFAULT_CHAT_DOCK: ChatDockSettings = {
+  position: 'right',
+  minWidth: 300,
+  maxWidth: 800,
+  height: 320,
+  floating: { x: 80, y: 80, width: 380, height: 560 },
+};
+
+export const DEFAULT_CHAT_OVERLAY: ChatOverlaySettings = {
+  enabled: false,
+  corner: 'bottom-right',
+  opacity: 70,
+  width: 30,
+  fontScale: 100,
+};
+
+// Display order and labels for the shortcut cheat sheet
+export const SHORTCUT_ACTIONS: { id: ShortcutAction; label: string }[] = [
+  ...Array.from({ length: 9 }, (_, i) => ({
+    id: `slot${i + 1}` as ShortcutAction,
+    label: `Expandir / recolher player ${i + 1}`,
+  })),
+  { id: 'toggleMute', label: 'Silenciar (expandido ou todos)' },
+  { id: 'soloAudio', label: 'Solo áudio: próximo player' },
+  { id: 'toggleChat', label: 'Abrir / fechar chat' },
+  { id: 'cycleLayout', label: 'Alternar layout' },
+  { id: 'refreshAll', label: 'Recarregar tudo' },
+  { id: 'cinemaMode', label: 'Modo cinema' },
+  { id: 'performanceMode', label: 'Modo performance' },
+  { id: 'showShortcuts', label: 'Mostrar atalhos' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  slot1: '1',
+  slot2: '2',
+  slot3: '3',
+  slot4: '4',
+  slot5: '5',
+  slot6: '6',
+  slot7: '7',
+  slot8: '8',
+  slot9: '9',
+  toggleMute: 'm',
+  soloAudio: 'a',
+  toggleChat: 'c',
+  cycleLayout: 'l',
+  refreshAll: 'r',
+  cinemaMode: 't',
+  performanceMode: 'p',
+  showShortcuts: '?',
+};
 
 export const STREAMERS: StreamerConfig[] = [
   {
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { ChatConnectionStatus, ChatMessage, ChatSource } from '../types';
+import { connectChat } from '../services/chat';
+
+const MAX_MESSAGES = 300;
+// Busy chats deliver many messages per second; they are rendered in batches
+const FLUSH_INTERVAL_MS = 250;
+
+export interface ChatFeedMessage extends ChatMessage {
+  key: string; // Unique across platforms
+  streamerId: string;
+}
+
+export const getChatSourceKey = (source: ChatSource) => `${source.streamerId}:${source.platform}`;
+
+// Connects to every source and merges their messages into one feed, oldest first
+function useChatFeed(sources: ChatSource[]) {
+  const [messages, setMessages] = useState<ChatFeedMessage[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, ChatConnectionStatus>>({});
+
+  // Only reconnect when the set of channels changes, not on every render
+  const sourcesKey = JSON.stringify(sources.map(s => [s.streamerId, s.platform, s.channelId]));
+
+  useEffect(() => {
+    let pending: ChatFeedMessage[] = [];
+
+    // Drop history from channels that are no longer part of the feed
+    const activeKeys = sources.map(getChatSourceKey);
+    setMessages(prev => prev.filter(m => activeKeys.includes(`${m.streamerId}:${m.platform}`)));
+
+    const flush = () => {
+      if (pending.length === 0) return;
+      const batch = pending;
+      pending = [];
+      setMessages(prev => {
+        const seen = new Set(prev.map(m => m.key));
+        return [...prev, ...batch.filter(m => !seen.has(m.key))]
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-MAX_MESSAGES);
+      });
+    };
+
+    const disconnects = sources.map(source => connectChat(source.platform, source.channelId, {
+      onMessage: (message) => {
+        pending.push({ ...message, key: `${source.platform}:${message.id}`, streamerId: source.streamerId });
+      },
+      onStatus: (status) => {
+        setStatuses(prev => (prev[getChatSourceKey(source)] === status ? prev : { ...prev, [getChatSourceKey(source)]: status }));
+      },
+    }));
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      disconnects.forEach(disconnect => disconnect());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sourcesKey]);
+
+  return { messages, statuses };
+}
+
+export default useChatFeed;
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Tracks an element's content size. Returns a callback ref, so it keeps
+// working when the element mounts later or is replaced.
+function useElementSize<T extends HTMLElement>(): [(node: T | null) => void, { width: number; height: number }] {
+  const [element, setElement] = useState<T | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const ref = useCallback((node: T | null) => setElement(node), []);
+
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(prev => prev.width === width && prev.height === height ? prev : { width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [ref, size];
+}
+
+export default useElementSize;
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { findShortcutAction, isTypingTarget, normalizeKey } from '../utils/shortcuts';
+
+type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Global keydown dispatcher. Ignores modified keys (browser shortcuts keep
+// working), key repeats and anything typed into a text field.
+function useKeyboardShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers, enabled: boolean) {
+  // Handlers are recreated every render; read the latest without re-subscribing
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTypingTarget(e.target)) return;
+
+      const action = findShortcutAction(bindings, normalizeKey(e));
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
+
+export default useKeyboardShortcuts;
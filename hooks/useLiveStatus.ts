@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { LiveStatus, LiveStatusMap, PlatformId, StreamerConfig } from '../types';
+import { isRegisteredPlatform } from '../platforms';
+import { checkLiveStatus } from '../services/liveStatus';
+
+const POLL_INTERVAL_MS = 60000;
+
+// Polls every configured channel of every streamer. Polling pauses while the
+// tab is hidden and catches up as soon as it becomes visible again.
+function useLiveStatus(roster: StreamerConfig[]): LiveStatusMap {
+  const [statuses, setStatuses] = useState<LiveStatusMap>({});
+
+  // Only re-subscribe when the channels themselves change, not on every roster render
+  const channelsKey = JSON.stringify(roster.map(s => [s.id, s.channels]));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      if (document.hidden) return;
+      const checks = roster.flatMap(s =>
+        Object.entries(s.channels)
+          .filter(([platform, channel]) => isRegisteredPlatform(platform) && channel && channel.trim())
+          .map(async ([platform, channel]): Promise<[string, PlatformId, LiveStatus]> =>
+            [s.id, platform, await checkLiveStatus(platform, (channel as string).trim())]
+          )
+      );
+      const results = await Promise.all(checks);
+      if (cancelled) return;
+      setStatuses(results.reduce((acc, [id, platform, status]) => ({
+        ...acc,
+        [id]: { ...acc[id], [platform]: status },
+      }), {} as LiveStatusMap));
+    };
+
+    const handleVisibility = () => {
+      if (!document.hidden) poll();
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelsKey]);
+
+  return statuses;
+}
+
+export default useLiveStatus;
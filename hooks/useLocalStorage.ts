@@ -1,40 +1,131 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useSyncExternalStore } from 'react';
 
-function useLocalStorage<T>(key: string, initialValue: T) {
-  // Get from local storage then parse stored json or return initialValue
-  const readValue = () => {
-    if (typeof window === 'undefined') {
-      return initialValue;
-    }
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.warn(`Error reading localStorage key “${key}”:`, error);
-      return initialValue;
-    }
-  };
+// --- Shared Store ---
+// One in-memory entry per key, shared by every hook instance in this tab and
+// kept in sync with other tabs/windows through the `storage` event.
+
+type Listener = () => void;
+
+interface StoreEntry {
+  value: unknown;
+  initialValue: unknown;
+  listeners: Set<Listener>;
+}
+
+const entries = new Map<string, StoreEntry>();
+
+// While suspended (e.g. viewing a shared session "just for this visit"),
+// writes are kept in memory instead of overwriting the user's saved setup.
+let persistenceSuspended = false;
+const pendingWrites = new Map<string, unknown>();
+
+const readFromStorage = (key: string, fallback: unknown) => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : fallback;
+  } catch (error) {
+    console.warn(`Error reading localStorage key “${key}”:`, error);
+    return fallback;
+  }
+};
+
+const getEntry = (key: string, initialValue: unknown): StoreEntry => {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { value: readFromStorage(key, initialValue), initialValue, listeners: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+};
+
+const notify = (entry: StoreEntry) => {
+  entry.listeners.forEach(listener => listener());
+};
 
-  const [storedValue, setStoredValue] = useState<T>(readValue);
+const writeToStorage = (key: string, value: unknown) => {
+  if (persistenceSuspended) {
+    pendingWrites.set(key, value);
+    return;
+  }
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Error setting localStorage key “${key}”:`, error);
+  }
+};
 
-  const setValue = (value: T | ((val: T) => T)) => {
+// Another tab or window changed storage: adopt its value (unless this tab is detached)
+const handleStorageEvent = (event: StorageEvent) => {
+  if (persistenceSuspended || event.storageArea !== window.localStorage) return;
+
+  // localStorage.clear() elsewhere resets every key to its default
+  const keys = event.key === null ? Array.from(entries.keys()) : [event.key];
+  keys.forEach(key => {
+    const entry = entries.get(key);
+    if (!entry) return;
     try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
-      }
+      entry.value = event.newValue === null || event.key === null
+        ? entry.initialValue
+        : JSON.parse(event.newValue);
+      notify(entry);
     } catch (error) {
-      console.warn(`Error setting localStorage key “${key}”:`, error);
+      console.warn(`Ignoring invalid sync value for localStorage key “${key}”:`, error);
     }
-  };
+  });
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', handleStorageEvent);
+}
+
+export const suspendPersistence = () => {
+  persistenceSuspended = true;
+};
+
+// Resumes persistence and stores everything that changed while suspended
+export const resumePersistence = () => {
+  persistenceSuspended = false;
+  pendingWrites.forEach((value, key) => writeToStorage(key, value));
+  pendingWrites.clear();
+};
+
+// Reads the current value of a key outside of React (falls back when never stored)
+export const getStoredValue = <T>(key: string, fallback: T): T =>
+  getEntry(key, fallback).value as T;
+
+// Writes a value through the store, updating every subscribed component
+export const setStoredValue = <T>(key: string, value: T | ((val: T) => T), initialValue?: T) => {
+  const entry = getEntry(key, initialValue);
+  // Functional updates always run against the latest value, not a render closure
+  const valueToStore = value instanceof Function ? value(entry.value as T) : value;
+  if (Object.is(valueToStore, entry.value)) return;
+  entry.value = valueToStore;
+  writeToStorage(key, valueToStore);
+  notify(entry);
+};
+
+function useLocalStorage<T>(key: string, initialValue: T) {
+  const subscribe = useCallback((listener: Listener) => {
+    const entry = getEntry(key, initialValue);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const getSnapshot = () => getEntry(key, initialValue).value as T;
+
+  const storedValue = useSyncExternalStore(subscribe, getSnapshot, () => initialValue);
 
-  useEffect(() => {
-    setStoredValue(readValue());
+  const setValue = useCallback((value: T | ((val: T) => T)) => {
+    setStoredValue(key, value, initialValue);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [key]);
 
   return [storedValue, setValue] as const;
 }
 
-export default useLocalStorage;
\ No newline at end of file
+export default useLocalStorage;
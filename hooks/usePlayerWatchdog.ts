@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PlayerEvent } from '../types';
+
+const LOAD_TIMEOUT_MS = 20000; // Embed never fired its load event
+const STALL_TIMEOUT_MS = 30000; // Playing player stopped reporting progress
+const STABLE_AFTER_MS = 60000; // Healthy this long after a reload resets the backoff
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+interface PlayerWatchdogOptions {
+  enabled: boolean; // Only while a player is actually mounted
+  loadKey: string; // Changes on every (re)load of the player
+  onReload: () => void;
+}
+
+export interface PlayerWatchdog {
+  attempt: number; // Automatic reloads since the player was last healthy
+  isRecovering: boolean; // A reload is scheduled or still loading
+  notifyLoaded: () => void;
+  notifyEvent: (event: PlayerEvent) => void;
+}
+
+// Watches one player for embeds that never load, error out or stall while
+// playing, and reloads them with exponential backoff. Paused, ended and
+// offline players are left alone.
+function usePlayerWatchdog({ enabled, loadKey, onReload }: PlayerWatchdogOptions): PlayerWatchdog {
+  const [attempt, setAttempt] = useState(0);
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  const attemptRef = useRef(0);
+  const watchTimerRef = useRef<number | null>(null);
+  const retryTimerRef = useRef<number | null>(null);
+  const stableTimerRef = useRef<number | null>(null);
+  const onReloadRef = useRef(onReload);
+  onReloadRef.current = onReload;
+
+  const clearTimer = (ref: { current: number | null }) => {
+    if (ref.current) clearTimeout(ref.current);
+    ref.current = null;
+  };
+
+  // Progress is shown by the slot's HUD through `attempt` / `isRecovering`
+  const fail = useCallback(() => {
+    clearTimer(watchTimerRef);
+    clearTimer(stableTimerRef);
+    if (retryTimerRef.current) return; // Already recovering
+
+    attemptRef.current += 1;
+    const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attemptRef.current - 1), MAX_BACKOFF_MS);
+    setAttempt(attemptRef.current);
+    setIsRecovering(true);
+
+    retryTimerRef.current = setTimeout(() => {
+      retryTimerRef.current = null;
+      onReloadRef.current();
+    }, delay);
+  }, []);
+
+  const watch = useCallback((ms: number) => {
+    clearTimer(watchTimerRef);
+    watchTimerRef.current = setTimeout(fail, ms);
+  }, [fail]);
+
+  // Every (re)load has to finish within the load timeout
+  useEffect(() => {
+    if (!enabled) return;
+    clearTimer(retryTimerRef);
+    watch(LOAD_TIMEOUT_MS);
+    return () => clearTimer(watchTimerRef);
+  }, [enabled, loadKey, watch]);
+
+  useEffect(() => () => {
+    clearTimer(watchTimerRef);
+    clearTimer(retryTimerRef);
+    clearTimer(stableTimerRef);
+  }, []);
+
+  const notifyLoaded = useCallback(() => {
+    clearTimer(watchTimerRef);
+    setIsRecovering(false);
+    // Players without events only ever report loading, so count a stable period as healthy
+    clearTimer(stableTimerRef);
+    stableTimerRef.current = setTimeout(() => {
+      attemptRef.current = 0;
+      setAttempt(0);
+    }, STABLE_AFTER_MS);
+  }, []);
+
+  const notifyEvent = useCallback((event: PlayerEvent) => {
+    switch (event) {
+      case 'error':
+        fail();
+        break;
+      case 'playing':
+      case 'progress':
+        watch(STALL_TIMEOUT_MS);
+        break;
+      case 'buffering':
+        // Buffering for too long counts as a stall
+        if (!watchTimerRef.current) watch(STALL_TIMEOUT_MS);
+        break;
+      default:
+        clearTimer(watchTimerRef);
+    }
+  }, [fail, watch]);
+
+  return { attempt, isRecovering, notifyLoaded, notifyEvent };
+}
+
+export default usePlayerWatchdog;
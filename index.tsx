@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { migrateStorage } from './utils/storage';
+
+// Upgrade and repair persisted state before any component reads it
+migrateStorage();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,39 @@
+import { CustomLayoutRow, LayoutDefinition, LayoutMode } from '../types';
+
+// Built-in layouts, in the order the dock cycles through them
+export const BUILT_IN_LAYOUTS: LayoutDefinition[] = [
+  { id: 'columns', label: 'Colunas', kind: 'columns' },
+  { id: 'grid', label: 'Foco (Grade)', kind: 'focus', focusSize: 0.6, focusSide: 'top', minSlots: 3 },
+  { id: 'pyramid', label: 'Pirâmide', kind: 'focus', focusSize: 0.5, focusSide: 'top', minSlots: 3 },
+  { id: 'auto', label: 'Automático', kind: 'tile' },
+  { id: 'focus-side', label: 'Foco Lateral', kind: 'focus', focusSize: 0.7, focusSide: 'left', minSlots: 2 },
+];
+
+export const DEFAULT_LAYOUT_ID: LayoutMode = 'columns';
+
+// Saved custom layouts live next to the built-ins under this id prefix
+export const CUSTOM_LAYOUT_PREFIX = 'custom:';
+
+export const isCustomLayoutId = (id: LayoutMode) => id.startsWith(CUSTOM_LAYOUT_PREFIX);
+
+// Built-ins first, then the user's saved layouts
+export const getAllLayouts = (customLayouts: LayoutDefinition[] = []) => [...BUILT_IN_LAYOUTS, ...customLayouts];
+
+export const getLayoutDefinition = (id: LayoutMode, customLayouts: LayoutDefinition[] = []): LayoutDefinition | undefined =>
+  getAllLayouts(customLayouts).find(layout => layout.id === id);
+
+export const isLayoutId = (value: unknown, customLayouts: LayoutDefinition[] = []): value is LayoutMode =>
+  typeof value === 'string' && getAllLayouts(customLayouts).some(layout => layout.id === value);
+
+export const getNextLayoutId = (current: LayoutMode, customLayouts: LayoutDefinition[] = []): LayoutMode => {
+  const layouts = getAllLayouts(customLayouts);
+  const index = layouts.findIndex(layout => layout.id === current);
+  return layouts[(index + 1) % layouts.length].id;
+};
+
+export const createCustomLayout = (label: string, rows: CustomLayoutRow[], takenIds: LayoutMode[]): LayoutDefinition => {
+  const base = `${CUSTOM_LAYOUT_PREFIX}${label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'layout'}`;
+  let id = base;
+  for (let i = 2; takenIds.includes(id); i++) id = `${base}-${i}`;
+  return { id, label, kind: 'custom', rows };
+};
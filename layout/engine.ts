@@ -0,0 +1,119 @@
+import { LayoutDefinition, LayoutRect, SpotlightStrip } from '../types';
+
+// Players are 16:9; the engine sizes cells to waste as little of that as possible
+const CONTENT_ASPECT = 16 / 9;
+
+const FULL: LayoutRect = { x: 0, y: 0, w: 1, h: 1 };
+
+// Share of the area the spotlight thumbnail strip takes
+const STRIP_SHARE = 0.2;
+
+export interface AreaSize {
+  width: number;
+  height: number;
+}
+
+// Picks the column count that shows `count` 16:9 videos largest inside width × height
+export const bestGrid = (count: number, width: number, height: number) => {
+  let best = { cols: 1, rows: count, videoArea: -1 };
+  for (let cols = 1; cols <= count; cols++) {
+    const rows = Math.ceil(count / cols);
+    const videoWidth = Math.min(width / cols, (height / rows) * CONTENT_ASPECT);
+    const videoArea = videoWidth * (videoWidth / CONTENT_ASPECT);
+    if (videoArea > best.videoArea) best = { cols, rows, videoArea };
+  }
+  return { cols: best.cols, rows: best.rows };
+};
+
+// Tiles `count` slots into `box`; an incomplete last row is centered
+const tile = (count: number, box: LayoutRect, size: AreaSize): LayoutRect[] => {
+  const { cols, rows } = bestGrid(count, box.w * size.width, box.h * size.height);
+  const w = box.w / cols;
+  const h = box.h / rows;
+  return Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / cols);
+    const inRow = row === rows - 1 ? count - row * cols : cols;
+    return {
+      x: box.x + ((cols - inRow) * w) / 2 + (i % cols) * w,
+      y: box.y + row * h,
+      w,
+      h,
+    };
+  });
+};
+
+// One row on landscape areas, one column on portrait ones (e.g. phones)
+const line = (count: number, size: AreaSize): LayoutRect[] => {
+  const horizontal = size.width >= size.height;
+  return Array.from({ length: count }, (_, i) => horizontal
+    ? { x: i / count, y: 0, w: 1 / count, h: 1 }
+    : { x: 0, y: i / count, w: 1, h: 1 / count });
+};
+
+const focus = (count: number, layout: LayoutDefinition, size: AreaSize): LayoutRect[] => {
+  const share = layout.focusSize ?? 0.6;
+  const [main, rest]: LayoutRect[] = layout.focusSide === 'left'
+    ? [{ x: 0, y: 0, w: share, h: 1 }, { x: share, y: 0, w: 1 - share, h: 1 }]
+    : [{ x: 0, y: 0, w: 1, h: share }, { x: 0, y: share, w: 1, h: 1 - share }];
+  return [main, ...tile(count - 1, rest, size)];
+};
+
+// Every visible slot needs a cell; otherwise the layout does not fit and null is returned
+const custom = (count: number, layout: LayoutDefinition): LayoutRect[] | null => {
+  const rows = layout.rows || [];
+  const rowsTotal = rows.reduce((sum, row) => sum + row.weight, 0);
+  const rects: LayoutRect[] = new Array(count);
+
+  let y = 0;
+  rows.forEach(row => {
+    const h = row.weight / rowsTotal;
+    const cellsTotal = row.cells.reduce((sum, cell) => sum + cell.weight, 0);
+    let x = 0;
+    row.cells.forEach(cell => {
+      const w = cell.weight / cellsTotal;
+      if (cell.slot < count && !rects[cell.slot]) rects[cell.slot] = { x, y, w, h };
+      x += w;
+    });
+    y += h;
+  });
+
+  return Array.from({ length: count }, (_, i) => rects[i]).every(Boolean) ? rects : null;
+};
+
+/**
+ * Computes one rect per slot, in display order. `size` is the measured stream
+ * area; before it is known, a 16:9 area is assumed.
+ */
+export const computeLayout = (layout: LayoutDefinition, count: number, size: AreaSize): LayoutRect[] => {
+  if (count <= 0) return [];
+  if (layout.kind === 'custom') {
+    const rects = custom(count, layout);
+    if (rects) return rects;
+  }
+  if (count === 1) return [FULL];
+
+  const area = size.width > 0 && size.height > 0 ? size : { width: 16, height: 9 };
+  if (layout.kind === 'focus' && count >= (layout.minSlots ?? 2)) return focus(count, layout, area);
+  if (layout.kind === 'columns') return line(count, area);
+  return tile(count, FULL, area);
+};
+
+/**
+ * Spotlight: the first rect is the expanded slot, followed by `thumbnails`
+ * rects for the strip. A side strip falls back to the bottom on portrait areas.
+ */
+export const computeSpotlight = (thumbnails: number, strip: SpotlightStrip, size: AreaSize): LayoutRect[] => {
+  if (thumbnails <= 0) return [FULL];
+
+  const area = size.width > 0 && size.height > 0 ? size : { width: 16, height: 9 };
+  const [main, rest]: LayoutRect[] = strip === 'side' && area.width >= area.height
+    ? [{ x: 0, y: 0, w: 1 - STRIP_SHARE, h: 1 }, { x: 1 - STRIP_SHARE, y: 0, w: STRIP_SHARE, h: 1 }]
+    : [{ x: 0, y: 0, w: 1, h: 1 - STRIP_SHARE }, { x: 0, y: 1 - STRIP_SHARE, w: 1, h: STRIP_SHARE }];
+  return [main, ...tile(thumbnails, rest, area)];
+};
+
+// Slots that do not touch the right/bottom edge get a divider there
+export const touchesEdge = (rect: LayoutRect) => ({
+  right: rect.x + rect.w >= 0.999,
+  bottom: rect.y + rect.h >= 0.999,
+});
@@ -0,0 +1,20 @@
+import { Platform, PlatformAdapter } from '../types';
+import { DirectStreamIcon } from '../constants';
+
+// Absolute http(s) URLs or paths served by this app (e.g. the bundled sample)
+const isMediaUrl = (value: string) => /^(https?:\/\/|\/)\S+$/.test(value);
+
+export const directAdapter: PlatformAdapter = {
+  id: Platform.Direct,
+  label: 'HLS/DASH',
+  Icon: DirectStreamIcon,
+  colors: { brand: '#F59E0B', text: '#fde3b0' },
+  badgeClassName: 'border-[#F59E0B] text-[#fde3b0] bg-[#F59E0B]/10 shadow-[0_0_15px_rgba(245,158,11,0.2)]',
+  activeClassName: 'text-[#F59E0B] bg-[#F59E0B]/10 border-[#F59E0B]/30',
+  channelPlaceholder: 'URL .m3u8 / .mpd (ex: /samples/hls/live.m3u8)',
+  renderMode: 'native',
+  buildEmbedUrl: (channelId) => channelId,
+  buildChatUrl: () => null,
+  buildPopoutUrl: (channelId) => channelId,
+  validateChannelId: (channelId) => (isMediaUrl(channelId) ? null : 'HLS/DASH: informe a URL do manifesto'),
+};
@@ -0,0 +1,22 @@
+import { EmbedContext } from '../types';
+
+// Production domains that must always be allowed as embed parents
+const KNOWN_PARENTS = ['viictornmultistream.vercel.app', 'www.viictornmultistream.vercel.app'];
+
+export const getEmbedContext = (): EmbedContext => {
+  const hostname = typeof window !== 'undefined' ? window.location.hostname : '';
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  const parents = new Set<string>(KNOWN_PARENTS);
+  if (hostname) {
+    parents.add(hostname);
+    if (hostname.startsWith('www.')) parents.add(hostname.replace('www.', ''));
+    else parents.add(`www.${hostname}`);
+  }
+  parents.add('localhost');
+  parents.add('127.0.0.1');
+
+  return { parents: Array.from(parents), hostname, origin };
+};
+
+export const toParentQuery = (ctx: EmbedContext) => ctx.parents.map(p => `parent=${p}`).join('&');
@@ -0,0 +1,26 @@
+import { Platform, PlatformAdapter } from '../types';
+import { FacebookIcon } from '../constants';
+
+// Accepts a page name/id (plays its current live) or a full video URL
+const toVideoHref = (channelId: string) => channelId.startsWith('http')
+  ? channelId
+  : `https://www.facebook.com/${channelId}/live`;
+
+export const facebookAdapter: PlatformAdapter = {
+  id: Platform.Facebook,
+  label: 'Facebook',
+  Icon: FacebookIcon,
+  colors: { brand: '#0866FF', text: '#b8d0ff' },
+  badgeClassName: 'border-[#0866FF] text-[#b8d0ff] bg-[#0866FF]/10 shadow-[0_0_15px_rgba(8,102,255,0.2)]',
+  activeClassName: 'text-[#0866FF] bg-[#0866FF]/10 border-[#0866FF]/30',
+  channelPlaceholder: 'Página ou URL do vídeo ao vivo',
+  buildEmbedUrl: (channelId, _ctx, options) =>
+    `https://www.facebook.com/plugins/video.php?href=${encodeURIComponent(toVideoHref(channelId))}&show_text=false&autoplay=true&mute=${options.muted}`,
+  // Facebook Gaming has no embeddable chat
+  buildChatUrl: () => null,
+  buildPopoutUrl: (channelId) => toVideoHref(channelId),
+  validateChannelId: (channelId) =>
+    /^[\w.-]{2,}$/.test(channelId) || /^https:\/\/(www\.|m\.)?(facebook|fb)\.(com|watch)\//.test(channelId)
+      ? null
+      : 'Facebook: nome da página ou URL do vídeo',
+};
@@ -0,0 +1,26 @@
+import { Platform, PlatformAdapter } from '../types';
+import { GenericEmbedIcon } from '../constants';
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+// Fallback for any site with an embeddable player: the "channel" is the player URL itself
+export const genericAdapter: PlatformAdapter = {
+  id: Platform.Generic,
+  label: 'Embed',
+  Icon: GenericEmbedIcon,
+  colors: { brand: '#a3a3a3', text: '#e5e5e5' },
+  badgeClassName: 'border-white/40 text-neutral-200 bg-white/10 shadow-[0_0_15px_rgba(255,255,255,0.1)]',
+  activeClassName: 'text-white bg-white/10 border-white/30',
+  channelPlaceholder: 'https://… (URL do player)',
+  buildEmbedUrl: (channelId) => (isHttpUrl(channelId) ? channelId : ''),
+  buildChatUrl: () => null,
+  buildPopoutUrl: (channelId) => (isHttpUrl(channelId) ? channelId : ''),
+  validateChannelId: (channelId) => (isHttpUrl(channelId) ? null : 'Embed: informe uma URL http(s) válida'),
+};
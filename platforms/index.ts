@@ -0,0 +1,22 @@
+import { registerPlatform } from './registry';
+import { twitchAdapter } from './twitch';
+import { youtubeAdapter } from './youtube';
+import { kickAdapter } from './kick';
+import { trovoAdapter } from './trovo';
+import { facebookAdapter } from './facebook';
+import { rumbleAdapter } from './rumble';
+import { genericAdapter } from './generic';
+import { directAdapter } from './direct';
+
+// Built-in platforms. To support a new platform, implement a PlatformAdapter and register it here.
+registerPlatform(twitchAdapter);
+registerPlatform(youtubeAdapter);
+registerPlatform(kickAdapter);
+registerPlatform(trovoAdapter);
+registerPlatform(facebookAdapter);
+registerPlatform(rumbleAdapter);
+registerPlatform(genericAdapter);
+registerPlatform(directAdapter);
+
+export * from './registry';
+export { getEmbedContext } from './embedContext';
@@ -0,0 +1,19 @@
+import { Platform, PlatformAdapter } from '../types';
+import { KickIcon } from '../constants';
+
+export const kickAdapter: PlatformAdapter = {
+  id: Platform.Kick,
+  label: 'Kick',
+  Icon: KickIcon,
+  colors: { brand: '#53FC18', text: '#caffb8' },
+  badgeClassName: 'border-[#53FC18] text-[#caffb8] bg-[#53FC18]/10 shadow-[0_0_15px_rgba(83,252,24,0.2)] text-shadow-sm',
+  activeClassName: 'text-[#53FC18] bg-[#53FC18]/10 border-[#53FC18]/30',
+  channelPlaceholder: 'Nome do canal',
+  // The Kick player has no public messaging API: mute changes reload the embed and the
+  // slot takes its playback state from the polled live status instead of player events
+  buildEmbedUrl: (channelId, _ctx, options) => `https://player.kick.com/${channelId}?autoplay=true&muted=${options.muted}`,
+  buildChatUrl: (channelId) => `https://kick.com/${channelId}/chatroom`,
+  buildPopoutUrl: (channelId) => `https://kick.com/${channelId}`,
+  validateChannelId: (channelId) =>
+    /^[a-zA-Z0-9_-]{3,25}$/.test(channelId) ? null : 'Canal do Kick: 3–25 letras, números, - ou _',
+};
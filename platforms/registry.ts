@@ -0,0 +1,17 @@
+import { PlatformAdapter, PlatformId } from '../types';
+
+// Registered adapters, in registration order (which is also the UI order)
+const adapters = new Map<PlatformId, PlatformAdapter>();
+
+export const registerPlatform = (adapter: PlatformAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+export const getPlatformAdapter = (id: PlatformId): PlatformAdapter | undefined => adapters.get(id);
+
+export const getRegisteredPlatforms = (): PlatformAdapter[] => Array.from(adapters.values());
+
+export const getPlatformIds = (): PlatformId[] => Array.from(adapters.keys());
+
+export const isRegisteredPlatform = (id: unknown): id is PlatformId =>
+  typeof id === 'string' && adapters.has(id);
@@ -0,0 +1,21 @@
+import { Platform, PlatformAdapter } from '../types';
+import { RumbleIcon } from '../constants';
+
+// Rumble embeds by the id from the video's "Embed" share link (e.g. v4abc12)
+export const rumbleAdapter: PlatformAdapter = {
+  id: Platform.Rumble,
+  label: 'Rumble',
+  Icon: RumbleIcon,
+  colors: { brand: '#85C742', text: '#d8efc2' },
+  badgeClassName: 'border-[#85C742] text-[#d8efc2] bg-[#85C742]/10 shadow-[0_0_15px_rgba(133,199,66,0.2)]',
+  activeClassName: 'text-[#85C742] bg-[#85C742]/10 border-[#85C742]/30',
+  channelPlaceholder: 'ID de embed do vídeo (v...)',
+  // The embed has neither a mute parameter nor a player API, so audio is left to the player itself
+  buildEmbedUrl: (channelId) => `https://rumble.com/embed/${channelId}/?pub=4&autoplay=2`,
+  hasMuteControl: false,
+  // The chat popup needs the numeric video id, which the embed id does not expose
+  buildChatUrl: () => null,
+  buildPopoutUrl: (channelId) => `https://rumble.com/embed/${channelId}/?pub=4`,
+  validateChannelId: (channelId) =>
+    /^v[a-z0-9]+$/i.test(channelId) ? null : 'Rumble: ID de embed começando com "v"',
+};
@@ -0,0 +1,18 @@
+import { Platform, PlatformAdapter } from '../types';
+import { TrovoIcon } from '../constants';
+
+export const trovoAdapter: PlatformAdapter = {
+  id: Platform.Trovo,
+  label: 'Trovo',
+  Icon: TrovoIcon,
+  colors: { brand: '#19D66B', text: '#b5f5d0' },
+  badgeClassName: 'border-[#19D66B] text-[#b5f5d0] bg-[#19D66B]/10 shadow-[0_0_15px_rgba(25,214,107,0.2)]',
+  activeClassName: 'text-[#19D66B] bg-[#19D66B]/10 border-[#19D66B]/30',
+  channelPlaceholder: 'Nome do canal',
+  buildEmbedUrl: (channelId, _ctx, options) =>
+    `https://player.trovo.live/embed/player?streamername=${channelId}&autoplay=1&muted=${options.muted ? 1 : 0}`,
+  buildChatUrl: (channelId) => `https://trovo.live/chat/${channelId}`,
+  buildPopoutUrl: (channelId) => `https://trovo.live/s/${channelId}`,
+  validateChannelId: (channelId) =>
+    /^[a-zA-Z0-9_]{2,30}$/.test(channelId) ? null : 'Canal da Trovo: letras, números ou _',
+};
@@ -0,0 +1,64 @@
+import { Platform, PlatformAdapter, PlayerEvent } from '../types';
+import { TwitchIcon } from '../constants';
+import { toParentQuery } from './embedContext';
+
+const PROXY_NAMESPACE = 'twitch-embed-player-proxy';
+
+// Playback states carried by the player's periodic UPDATE_STATE message
+const PLAYBACK_EVENTS: Record<string, PlayerEvent> = {
+  Ready: 'ready',
+  Playing: 'progress',
+  Buffering: 'buffering',
+  Idle: 'paused',
+  Ended: 'ended',
+};
+
+const PROXY_EVENTS: Record<string, PlayerEvent> = {
+  ready: 'ready',
+  play: 'playing',
+  playing: 'playing',
+  pause: 'paused',
+  ended: 'ended',
+  offline: 'offline',
+  error: 'error',
+};
+
+export const twitchAdapter: PlatformAdapter = {
+  id: Platform.Twitch,
+  label: 'Twitch',
+  Icon: TwitchIcon,
+  colors: { brand: '#9146FF', text: '#d6baff' },
+  badgeClassName: 'border-[#9146FF] text-[#d6baff] bg-[#9146FF]/10 shadow-[0_0_15px_rgba(145,70,255,0.2)]',
+  activeClassName: 'text-[#9146FF] bg-[#9146FF]/10 border-[#9146FF]/30',
+  channelPlaceholder: 'Nome do canal',
+  buildEmbedUrl: (channelId, ctx, options) =>
+    `https://player.twitch.tv/?channel=${channelId.toLowerCase()}&${toParentQuery(ctx)}&muted=${options.muted}&autoplay=true`,
+  buildChatUrl: (channelId, ctx) =>
+    `https://www.twitch.tv/embed/${channelId}/chat?${toParentQuery(ctx)}&darkpopout`,
+  buildPopoutUrl: (channelId) => `https://twitch.tv/${channelId}/popout`,
+  validateChannelId: (channelId) =>
+    /^[a-zA-Z0-9_]{3,25}$/.test(channelId) ? null : 'Canal da Twitch: 3–25 letras, números ou _',
+  // Same message protocol the official Twitch Embed script uses to drive its player iframe
+  setMuted: (frame, muted) => {
+    frame.contentWindow?.postMessage(
+      { namespace: PROXY_NAMESPACE, eventName: 'setMuted', params: muted },
+      'https://player.twitch.tv'
+    );
+  },
+  setVolume: (frame, volume) => {
+    frame.contentWindow?.postMessage(
+      { namespace: PROXY_NAMESPACE, eventName: 'setVolume', params: volume },
+      'https://player.twitch.tv'
+    );
+  },
+  // The player posts its events to the parent window unprompted
+  parsePlayerMessage: (data) => {
+    if (!data || typeof data !== 'object') return null;
+    const { namespace, eventName, params } = data as { namespace?: unknown; eventName?: unknown; params?: { playback?: unknown } };
+    if (namespace !== PROXY_NAMESPACE || typeof eventName !== 'string') return null;
+    if (eventName === 'UPDATE_STATE') {
+      return typeof params?.playback === 'string' ? PLAYBACK_EVENTS[params.playback] ?? null : null;
+    }
+    return PROXY_EVENTS[eventName.toLowerCase()] ?? null;
+  },
+};
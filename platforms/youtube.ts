@@ -0,0 +1,99 @@
+import { Platform, PlatformAdapter, PlayerEvent } from '../types';
+import { YouTubeIcon } from '../constants';
+
+// Channel ids (UC...) embed whatever is live on the channel; anything else is a video id
+const isChannelId = (id: string) => id.startsWith('UC');
+
+// IFrame Player API states (-1 unstarted and 5 cued carry no playback information)
+const PLAYER_STATE_EVENTS: Record<number, PlayerEvent> = {
+  0: 'ended',
+  1: 'playing',
+  2: 'paused',
+  3: 'buffering',
+};
+
+// Last reported playback position per player. A reloaded embed is a new iframe,
+// so it starts without a position.
+const lastCurrentTime = new WeakMap<HTMLIFrameElement, number>();
+
+const parseMessage = (data: unknown): { event?: string; info?: unknown } | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message === 'object' ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+export const youtubeAdapter: PlatformAdapter = {
+  id: Platform.YouTube,
+  label: 'YouTube',
+  Icon: YouTubeIcon,
+  colors: { brand: '#FF0000', text: '#ffbaba' },
+  badgeClassName: 'border-[#FF0000] text-[#ffbaba] bg-[#FF0000]/10 shadow-[0_0_15px_rgba(255,0,0,0.2)]',
+  activeClassName: 'text-[#FF0000] bg-[#FF0000]/10 border-[#FF0000]/30',
+  channelPlaceholder: 'ID do vídeo ou canal (UC...)',
+  // enablejsapi lets the IFrame Player API commands below reach the player
+  buildEmbedUrl: (channelId, ctx, options) => isChannelId(channelId)
+    ? `https://www.youtube.com/embed/live_stream?channel=${channelId}&autoplay=1&mute=${options.muted ? 1 : 0}&enablejsapi=1&origin=${ctx.origin}`
+    : `https://www.youtube.com/embed/${channelId}?autoplay=1&mute=${options.muted ? 1 : 0}&enablejsapi=1&origin=${ctx.origin}`,
+  // Live chat embeds by video id only; channel ids are resolved first (see services/liveVideo)
+  buildChatUrl: (channelId, ctx) => isChannelId(channelId)
+    ? null
+    : `https://www.youtube.com/live_chat?v=${channelId}&embed_domain=${ctx.hostname}&dark_theme=1`,
+  buildPopoutUrl: (channelId) => isChannelId(channelId)
+    ? `https://youtube.com/channel/${channelId}/live`
+    : `https://youtube.com/watch?v=${channelId}`,
+  validateChannelId: (channelId) =>
+    /^UC[\w-]{22}$/.test(channelId) || /^[\w-]{11}$/.test(channelId)
+      ? null
+      : 'YouTube: ID de vídeo (11 caracteres) ou de canal (UC...)',
+  setMuted: (frame, muted) => {
+    frame.contentWindow?.postMessage(
+      JSON.stringify({ event: 'command', func: muted ? 'mute' : 'unMute', args: [] }),
+      'https://www.youtube.com'
+    );
+  },
+  setVolume: (frame, volume) => {
+    frame.contentWindow?.postMessage(
+      JSON.stringify({ event: 'command', func: 'setVolume', args: [Math.round(volume * 100)] }),
+      'https://www.youtube.com'
+    );
+  },
+  // The player only reports events after a "listening" handshake from the parent
+  subscribePlayerEvents: (frame) => {
+    frame.contentWindow?.postMessage(
+      JSON.stringify({ event: 'listening', id: frame.title, channel: 'widget' }),
+      'https://www.youtube.com'
+    );
+  },
+  parsePlayerMessage: (data, frame) => {
+    const message = parseMessage(data);
+    if (!message) return null;
+    switch (message.event) {
+      case 'onReady':
+        return 'ready';
+      case 'onError':
+        return 'error';
+      case 'onStateChange':
+        return typeof message.info === 'number' ? PLAYER_STATE_EVENTS[message.info] ?? null : null;
+      case 'infoDelivery': {
+        // Sent as deltas while listening: playerState only appears when it changes,
+        // so progress is judged by currentTime moving forward on its own
+        const info = message.info as { playerState?: unknown; currentTime?: unknown } | null;
+        if (!info) return null;
+        let advanced = false;
+        if (typeof info.currentTime === 'number') {
+          const previous = lastCurrentTime.get(frame);
+          advanced = previous !== undefined && info.currentTime > previous;
+          lastCurrentTime.set(frame, info.currentTime);
+        }
+        const stateEvent = typeof info.playerState === 'number' ? PLAYER_STATE_EVENTS[info.playerState] : undefined;
+        return stateEvent ?? (advanced ? 'progress' : null);
+      }
+      default:
+        return null;
+    }
+  },
+};
@@ -0,0 +1,17 @@
+import { Platform } from '../../types';
+import { registerChatConnector } from './registry';
+import { createTwitchChatConnector } from './twitch';
+import { createKickChatConnector } from './kick';
+import { createYouTubeChatConnector } from './youtube';
+import { resolveLiveVideo } from '../liveVideo';
+
+// Every endpoint can be overridden (e.g. with a local mock server); empty means the real one
+registerChatConnector(Platform.Twitch, createTwitchChatConnector(process.env.TWITCH_CHAT_URL || undefined));
+registerChatConnector(Platform.Kick, createKickChatConnector(process.env.KICK_CHAT_URL || undefined, process.env.KICK_CHAT_API_URL || undefined));
+registerChatConnector(Platform.YouTube, createYouTubeChatConnector(
+  process.env.YOUTUBE_API_KEY || '',
+  (channelId) => resolveLiveVideo(Platform.YouTube, channelId),
+  process.env.YOUTUBE_CHAT_API_URL || undefined
+));
+
+export { registerChatConnector, getChatConnector, hasChatConnector, connectChat } from './registry';
@@ -0,0 +1,120 @@
+import { ChatConnector, ChatFragment, Platform } from '../../types';
+import { openReconnectingSocket } from './socket';
+
+// Kick chat runs on a public Pusher app; each channel's chatroom is a Pusher channel
+export const KICK_CHAT_URL = 'wss://ws-us2.pusher.com/app/32cbd69e4b950bf97679?protocol=7&client=js&version=8.4.0-rc2&flash=false';
+export const KICK_CHAT_API_URL = 'https://kick.com/api/v2';
+
+const CHAT_MESSAGE_EVENT = 'App\\Events\\ChatMessageEvent';
+
+const EMOTE_URL = (id: string) => `https://files.kick.com/emotes/${id}/fullsize`;
+
+// Emotes are inlined in the content as [emote:<id>:<name>]
+const buildFragments = (content: string): ChatFragment[] => {
+  const fragments: ChatFragment[] = [];
+  let cursor = 0;
+  for (const match of content.matchAll(/\[emote:(\d+):([^\]]*)\]/g)) {
+    const index = match.index ?? 0;
+    if (index > cursor) fragments.push({ type: 'text', text: content.slice(cursor, index) });
+    fragments.push({ type: 'emote', text: match[2], url: EMOTE_URL(match[1]) });
+    cursor = index + match[0].length;
+  }
+  if (cursor < content.length) fragments.push({ type: 'text', text: content.slice(cursor) });
+  return fragments;
+};
+
+interface KickChannelResponse {
+  chatroom?: { id?: number };
+}
+
+interface PusherFrame {
+  event: string;
+  data?: unknown;
+}
+
+interface KickChatMessage {
+  id: string | number;
+  content: string;
+  created_at?: string;
+  sender?: { username?: string; identity?: { color?: string } };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isPusherFrame = (value: unknown): value is PusherFrame =>
+  isObject(value) && typeof value.event === 'string';
+
+const isKickChatMessage = (value: unknown): value is KickChatMessage =>
+  isObject(value) && typeof value.content === 'string';
+
+// Pusher payloads carry `data` as a JSON string
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+// Both URLs can point at a local mock server (Pusher-style WebSocket + channel JSON)
+export const createKickChatConnector = (socketUrl = KICK_CHAT_URL, apiUrl = KICK_CHAT_API_URL): ChatConnector => ({
+  id: 'kick-pusher',
+  connect: (channelId, { onMessage, onStatus }) => {
+    let disconnect: (() => void) | null = null;
+    let cancelled = false;
+
+    onStatus('connecting');
+
+    // The channel endpoint may be blocked by CORS/bot protection, like the live status check
+    fetch(`${apiUrl}/channels/${encodeURIComponent(channelId)}`, { headers: { Accept: 'application/json' } })
+      .then(response => (response.ok ? response.json() : null))
+      .then((body: KickChannelResponse | null) => {
+        if (cancelled) return;
+        const chatroomId = body?.chatroom?.id;
+        if (!chatroomId) {
+          onStatus('unavailable');
+          return;
+        }
+
+        disconnect = openReconnectingSocket({
+          url: socketUrl,
+          onStatus,
+          onOpen: () => {},
+          onMessage: (data, socket) => {
+            const payload = parseJson(data);
+            if (!isPusherFrame(payload)) return;
+
+            if (payload.event === 'pusher:connection_established') {
+              socket.send(JSON.stringify({ event: 'pusher:subscribe', data: { auth: '', channel: `chatrooms.${chatroomId}.v2` } }));
+            } else if (payload.event === 'pusher:ping') {
+              socket.send(JSON.stringify({ event: 'pusher:pong', data: {} }));
+            } else if (payload.event === CHAT_MESSAGE_EVENT) {
+              const message = parseJson(payload.data);
+              if (!isKickChatMessage(message)) return;
+              const sentAt = Date.parse(message.created_at ?? '');
+              onMessage({
+                id: String(message.id),
+                platform: Platform.Kick,
+                author: message.sender?.username || 'Kick',
+                authorColor: message.sender?.identity?.color || undefined,
+                fragments: buildFragments(message.content),
+                timestamp: Number.isFinite(sentAt) ? sentAt : Date.now(),
+              });
+            }
+          },
+        });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn(`Kick chatroom lookup failed (${channelId}):`, error);
+        onStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      disconnect?.();
+    };
+  },
+});
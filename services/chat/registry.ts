@@ -0,0 +1,28 @@
+import { ChatConnector, ChatConnectorHandlers, PlatformId } from '../../types';
+
+// One connector per platform; platforms without one are left out of the merged feed
+const connectors = new Map<PlatformId, ChatConnector>();
+
+export const registerChatConnector = (platform: PlatformId, connector: ChatConnector) => {
+  connectors.set(platform, connector);
+};
+
+export const getChatConnector = (platform: PlatformId): ChatConnector | undefined => connectors.get(platform);
+
+export const hasChatConnector = (platform: PlatformId) => connectors.has(platform);
+
+// Never throws: a connector that fails to start just reports an error status
+export const connectChat = (platform: PlatformId, channelId: string, handlers: ChatConnectorHandlers): (() => void) => {
+  const connector = connectors.get(platform);
+  if (!connector || !channelId) {
+    handlers.onStatus('unavailable');
+    return () => {};
+  }
+  try {
+    return connector.connect(channelId, handlers);
+  } catch (error) {
+    console.warn(`Chat connection failed (${connector.id}: ${channelId}):`, error);
+    handlers.onStatus('error');
+    return () => {};
+  }
+};
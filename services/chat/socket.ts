@@ -0,0 +1,50 @@
+import { ChatConnectionStatus } from '../../types';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 30000;
+
+interface ReconnectingSocketOptions {
+  url: string;
+  onOpen: (socket: WebSocket) => void;
+  onMessage: (data: string, socket: WebSocket) => void;
+  onStatus: (status: ChatConnectionStatus) => void;
+}
+
+/**
+ * Keeps a WebSocket open, reconnecting with exponential backoff whenever it
+ * drops. Returns a function that closes it for good.
+ */
+export const openReconnectingSocket = ({ url, onOpen, onMessage, onStatus }: ReconnectingSocketOptions) => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const connect = () => {
+    onStatus('connecting');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      attempt = 0;
+      onStatus('connected');
+      onOpen(socket as WebSocket);
+    };
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') onMessage(event.data, socket as WebSocket);
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      onStatus('error');
+      attempt += 1;
+      retryTimer = setTimeout(connect, Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempt - 1)));
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    socket?.close();
+  };
+};
@@ -0,0 +1,115 @@
+import { ChatConnector, ChatFragment, Platform } from '../../types';
+import { openReconnectingSocket } from './socket';
+
+export const TWITCH_CHAT_URL = 'wss://irc-ws.chat.twitch.tv:443';
+
+const EMOTE_URL = (id: string) => `https://static-cdn.jtvnw.net/emoticons/v2/${id}/default/dark/1.0`;
+
+// Anonymous read-only login (justinfan users need no password)
+const ANONYMOUS_NICK = 'justinfan12345';
+
+interface IrcMessage {
+  tags: Record<string, string>;
+  prefix: string;
+  command: string;
+  params: string[];
+  trailing: string;
+}
+
+const unescapeTag = (value: string) =>
+  value.replace(/\\(.)/g, (_, c) => ({ s: ' ', ':': ';', r: '\r', n: '\n', '\\': '\\' } as Record<string, string>)[c] ?? c);
+
+// Parses one line of the form "@tags :prefix COMMAND params :trailing"
+const parseIrcLine = (line: string): IrcMessage => {
+  let rest = line;
+  const tags: Record<string, string> = {};
+  if (rest.startsWith('@')) {
+    const space = rest.indexOf(' ');
+    rest.slice(1, space).split(';').forEach(pair => {
+      const eq = pair.indexOf('=');
+      if (eq === -1) tags[pair] = '';
+      else tags[pair.slice(0, eq)] = unescapeTag(pair.slice(eq + 1));
+    });
+    rest = rest.slice(space + 1);
+  }
+
+  let prefix = '';
+  if (rest.startsWith(':')) {
+    const space = rest.indexOf(' ');
+    prefix = rest.slice(1, space);
+    rest = rest.slice(space + 1);
+  }
+
+  const trailingAt = rest.indexOf(' :');
+  const trailing = trailingAt === -1 ? '' : rest.slice(trailingAt + 2);
+  const [command, ...params] = (trailingAt === -1 ? rest : rest.slice(0, trailingAt)).split(' ');
+  return { tags, prefix, command, params, trailing };
+};
+
+// The emotes tag holds code point ranges, e.g. "25:0-4,12-16/1902:6-10"
+const buildFragments = (text: string, emotesTag: string): ChatFragment[] => {
+  const chars = Array.from(text);
+  const ranges = emotesTag.split('/').filter(Boolean).flatMap(entry => {
+    const [id, positions = ''] = entry.split(':');
+    return positions.split(',').map(range => {
+      const [start, end] = range.split('-').map(Number);
+      return { id, start, end };
+    });
+  })
+    .filter(r => Number.isInteger(r.start) && Number.isInteger(r.end) && r.end < chars.length)
+    .sort((a, b) => a.start - b.start);
+
+  const fragments: ChatFragment[] = [];
+  let cursor = 0;
+  ranges.forEach(r => {
+    if (r.start < cursor) return;
+    if (r.start > cursor) fragments.push({ type: 'text', text: chars.slice(cursor, r.start).join('') });
+    fragments.push({ type: 'emote', text: chars.slice(r.start, r.end + 1).join(''), url: EMOTE_URL(r.id) });
+    cursor = r.end + 1;
+  });
+  if (cursor < chars.length) fragments.push({ type: 'text', text: chars.slice(cursor).join('') });
+  return fragments;
+};
+
+// `url` can point at a local mock IRC WebSocket server
+export const createTwitchChatConnector = (url = TWITCH_CHAT_URL): ChatConnector => ({
+  id: 'twitch-irc',
+  connect: (channelId, { onMessage, onStatus }) => {
+    const channel = `#${channelId.toLowerCase()}`;
+
+    return openReconnectingSocket({
+      url,
+      onStatus,
+      onOpen: (socket) => {
+        socket.send('CAP REQ :twitch.tv/tags');
+        socket.send(`NICK ${ANONYMOUS_NICK}`);
+        socket.send(`JOIN ${channel}`);
+      },
+      onMessage: (data, socket) => {
+        data.split('\r\n').filter(Boolean).forEach(line => {
+          const message = parseIrcLine(line);
+          if (message.command === 'PING') {
+            socket.send(`PONG :${message.trailing}`);
+            return;
+          }
+          if (message.command !== 'PRIVMSG') return;
+
+          // "/me" messages arrive wrapped as \u0001ACTION text\u0001
+          const action = message.trailing.match(/^\u0001ACTION (.*)\u0001$/);
+          const text = action ? action[1] : message.trailing;
+          const login = message.prefix.split('!')[0];
+          const sentAt = Number(message.tags['tmi-sent-ts']);
+
+          onMessage({
+            id: message.tags.id || `${login}-${sentAt || Date.now()}`,
+            platform: Platform.Twitch,
+            author: message.tags['display-name'] || login,
+            authorColor: message.tags.color || undefined,
+            fragments: buildFragments(text, message.tags.emotes || ''),
+            timestamp: Number.isFinite(sentAt) && sentAt > 0 ? sentAt : Date.now(),
+          });
+        });
+      },
+    });
+  },
+});
@@ -0,0 +1,123 @@
+import { ChatConnector, Platform } from '../../types';
+
+export const YOUTUBE_CHAT_API_URL = 'https://www.googleapis.com/youtube/v3';
+
+// YouTube tells us how often to poll; these bound its hint
+const MIN_POLL_MS = 2000;
+const MAX_POLL_MS = 30000;
+// How long to wait before looking for a live broadcast again. Channel lookups go
+// through the shared live video cache, which backs off further on its own.
+const RETRY_MS = 5 * 60 * 1000;
+
+// The parts of the Data API responses the connector reads
+interface VideosResponse {
+  items?: { liveStreamingDetails?: { activeLiveChatId?: string } }[];
+}
+
+interface LiveChatMessage {
+  id: string;
+  snippet?: { displayMessage?: string; publishedAt?: string };
+  authorDetails?: { displayName?: string };
+}
+
+interface LiveChatMessagesResponse {
+  items?: LiveChatMessage[];
+  pollingIntervalMillis?: number;
+  nextPageToken?: string;
+}
+
+/**
+ * Polls the Data API live chat of the channel's current broadcast. Needs an
+ * API key; `apiUrl` can point at a local mock HTTP server. `resolveVideoId`
+ * turns a channel id into its live video id (see services/liveVideo).
+ */
+export const createYouTubeChatConnector = (
+  apiKey: string,
+  resolveVideoId: (channelId: string) => Promise<string | null>,
+  apiUrl = YOUTUBE_CHAT_API_URL
+): ChatConnector => ({
+  id: 'youtube-live-chat',
+  connect: (channelId, { onMessage, onStatus }) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    if (!apiKey) {
+      onStatus('unavailable');
+      return () => {};
+    }
+
+    const getJson = async <T>(path: string): Promise<T | null> => {
+      const response = await fetch(`${apiUrl}${path}${path.includes('?') ? '&' : '?'}key=${apiKey}`);
+      return response.ok ? response.json() : null;
+    };
+
+    const findLiveChatId = async (): Promise<string | null> => {
+      const videoId = await resolveVideoId(channelId);
+      if (!videoId) return null;
+      const videos = await getJson<VideosResponse>(`/videos?part=liveStreamingDetails&id=${videoId}`);
+      return videos?.items?.[0]?.liveStreamingDetails?.activeLiveChatId || null;
+    };
+
+    const schedule = (run: () => void, delay: number) => {
+      if (!cancelled) timer = setTimeout(run, delay);
+    };
+
+    const poll = async (liveChatId: string, pageToken?: string) => {
+      const body = await getJson<LiveChatMessagesResponse>(`/liveChat/messages?liveChatId=${liveChatId}&part=snippet,authorDetails${pageToken ? `&pageToken=${pageToken}` : ''}`)
+        .catch(error => {
+          console.warn(`YouTube live chat poll failed (${channelId}):`, error);
+          return null;
+        });
+      if (cancelled) return;
+      if (!body) {
+        // The broadcast ended or the quota ran out; start over later
+        onStatus('unavailable');
+        schedule(start, RETRY_MS);
+        return;
+      }
+
+      onStatus('connected');
+      (Array.isArray(body.items) ? body.items : []).forEach(item => {
+        const text = item.snippet?.displayMessage;
+        if (typeof text !== 'string') return;
+        const sentAt = Date.parse(item.snippet?.publishedAt ?? '');
+        onMessage({
+          id: String(item.id),
+          platform: Platform.YouTube,
+          author: item.authorDetails?.displayName || 'YouTube',
+          fragments: [{ type: 'text', text }],
+          timestamp: Number.isFinite(sentAt) ? sentAt : Date.now(),
+        });
+      });
+
+      const interval = Math.min(MAX_POLL_MS, Math.max(MIN_POLL_MS, Number(body.pollingIntervalMillis) || 0));
+      schedule(() => poll(liveChatId, body.nextPageToken), interval);
+    };
+
+    const start = async () => {
+      onStatus('connecting');
+      try {
+        const liveChatId = await findLiveChatId();
+        if (cancelled) return;
+        if (!liveChatId) {
+          onStatus('unavailable');
+          schedule(start, RETRY_MS);
+          return;
+        }
+        await poll(liveChatId);
+      } catch (error) {
+        if (cancelled) return;
+        console.warn(`YouTube live chat failed (${channelId}):`, error);
+        onStatus('error');
+        schedule(start, RETRY_MS);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  },
+});
@@ -0,0 +1,18 @@
+import { Platform } from '../../types';
+import { getPlatformIds } from '../../platforms';
+import { registerLiveStatusProvider } from './registry';
+import { twitchLiveStatusProvider } from './twitch';
+import { kickLiveStatusProvider } from './kick';
+import { youtubeLiveStatusProvider } from './youtube';
+import { createMockLiveStatusProvider } from './mock';
+
+// LIVE_STATUS_PROVIDER=mock answers every platform from the local mock file
+if (process.env.LIVE_STATUS_PROVIDER === 'mock') {
+  getPlatformIds().forEach(platform => registerLiveStatusProvider(platform, createMockLiveStatusProvider(platform)));
+} else {
+  registerLiveStatusProvider(Platform.Twitch, twitchLiveStatusProvider);
+  registerLiveStatusProvider(Platform.Kick, kickLiveStatusProvider);
+  registerLiveStatusProvider(Platform.YouTube, youtubeLiveStatusProvider);
+}
+
+export { registerLiveStatusProvider, getLiveStatusProvider, checkLiveStatus } from './registry';
@@ -0,0 +1,14 @@
+import { LiveStatusProvider } from '../../types';
+
+// Kick's public channel endpoint; it may be blocked by CORS/bot protection in some browsers
+export const kickLiveStatusProvider: LiveStatusProvider = {
+  id: 'kick-channels',
+  checkChannel: async (channelId) => {
+    const response = await fetch(`https://kick.com/api/v2/channels/${encodeURIComponent(channelId)}`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) return 'unknown';
+    const body = await response.json();
+    return body?.livestream ? 'live' : 'offline';
+  },
+};
@@ -0,0 +1,29 @@
+import { LiveStatusProvider, PlatformId } from '../../types';
+
+// Local JSON for testing failover without real APIs, shaped as
+// { "<platform>": { "<channelId>": true | false } }. Missing entries are 'unknown'.
+const MOCK_URL = process.env.LIVE_STATUS_MOCK_URL || '/mock/live-status.json';
+
+// One request serves every channel checked in the same polling round
+const CACHE_MS = 5000;
+let cached: { at: number; data: Promise<Record<string, Record<string, boolean>>> } | null = null;
+
+const loadMockData = () => {
+  if (!cached || Date.now() - cached.at > CACHE_MS) {
+    cached = {
+      at: Date.now(),
+      data: fetch(MOCK_URL, { cache: 'no-store' }).then(r => (r.ok ? r.json() : {})),
+    };
+  }
+  return cached.data;
+};
+
+export const createMockLiveStatusProvider = (platform: PlatformId): LiveStatusProvider => ({
+  id: `mock-${platform}`,
+  checkChannel: async (channelId) => {
+    const data = await loadMockData();
+    const value = data?.[platform]?.[channelId];
+    if (typeof value !== 'boolean') return 'unknown';
+    return value ? 'live' : 'offline';
+  },
+});
@@ -0,0 +1,22 @@
+import { LiveStatus, LiveStatusProvider, PlatformId } from '../../types';
+
+// One provider per platform; platforms without one always report 'unknown'
+const providers = new Map<PlatformId, LiveStatusProvider>();
+
+export const registerLiveStatusProvider = (platform: PlatformId, provider: LiveStatusProvider) => {
+  providers.set(platform, provider);
+};
+
+export const getLiveStatusProvider = (platform: PlatformId): LiveStatusProvider | undefined => providers.get(platform);
+
+// Never throws: network/CORS/quota failures simply mean the status is unknown
+export const checkLiveStatus = async (platform: PlatformId, channelId: string): Promise<LiveStatus> => {
+  const provider = providers.get(platform);
+  if (!provider || !channelId) return 'unknown';
+  try {
+    return await provider.checkChannel(channelId);
+  } catch (error) {
+    console.warn(`Live status check failed (${provider.id}: ${channelId}):`, error);
+    return 'unknown';
+  }
+};
@@ -0,0 +1,16 @@
+import { LiveStatusProvider } from '../../types';
+
+// Helix needs an app access token, which must stay on a server: requests go to a
+// proxy that adds the credentials (see vite.config.ts). Without one the provider stays silent.
+const HELIX_URL = process.env.TWITCH_HELIX_URL || '';
+
+export const twitchLiveStatusProvider: LiveStatusProvider = {
+  id: 'twitch-helix',
+  checkChannel: async (channelId) => {
+    if (!HELIX_URL) return 'unknown';
+    const response = await fetch(`${HELIX_URL}/streams?user_login=${encodeURIComponent(channelId.toLowerCase())}`);
+    if (!response.ok) return 'unknown';
+    const body = await response.json();
+    return Array.isArray(body?.data) && body.data.length > 0 ? 'live' : 'offline';
+  },
+};
@@ -0,0 +1,34 @@
+import { LiveStatusProvider, Platform } from '../../types';
+import { lookupLiveVideo, forgetLiveVideo } from '../liveVideo';
+
+// YouTube Data API v3 key; without it the provider stays silent
+const API_KEY = process.env.YOUTUBE_API_KEY || '';
+const API_BASE = 'https://www.googleapis.com/youtube/v3';
+
+// A channel search costs 100 quota units against 1 for a video lookup, so channel
+// ids (UC...) are resolved to their broadcast once through the shared, backed-off
+// live video cache and only the cheap video lookup is polled afterwards.
+export const youtubeLiveStatusProvider: LiveStatusProvider = {
+  id: 'youtube-data-api',
+  checkChannel: async (channelId) => {
+    if (!API_KEY) return 'unknown';
+
+    const isChannel = channelId.startsWith('UC');
+    const { videoId, failed } = isChannel
+      ? await lookupLiveVideo(Platform.YouTube, channelId)
+      : { videoId: channelId, failed: false };
+    // A failed search (e.g. quota exhausted) must not trigger failover away from YouTube
+    if (failed) return 'unknown';
+    if (!videoId) return 'offline';
+
+    const response = await fetch(`${API_BASE}/videos?part=snippet&id=${videoId}&key=${API_KEY}`);
+    if (!response.ok) return 'unknown';
+    const body = await response.json();
+    const items = Array.isArray(body?.items) ? body.items : [];
+    if (items[0]?.snippet?.liveBroadcastContent === 'live') return 'live';
+
+    // The broadcast ended; the next check looks for a new one
+    if (isChannel) forgetLiveVideo(Platform.YouTube, channelId);
+    return 'offline';
+  },
+};
@@ -0,0 +1,8 @@
+import { Platform } from '../../types';
+import { registerLiveVideoResolver } from './registry';
+import { createYouTubeLiveVideoResolver } from './youtube';
+
+// Shares the chat aggregator's Data API endpoint so both can run against one mock server
+registerLiveVideoResolver(Platform.YouTube, createYouTubeLiveVideoResolver(process.env.YOUTUBE_API_KEY || '', process.env.YOUTUBE_CHAT_API_URL || undefined));
+
+export { registerLiveVideoResolver, hasLiveVideoResolver, lookupLiveVideo, resolveLiveVideo, forgetLiveVideo } from './registry';
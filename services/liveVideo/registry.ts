@@ -0,0 +1,65 @@
+import { LiveVideoLookup, LiveVideoResolver, PlatformId } from '../../types';
+
+// A found broadcast is reused until someone reports it ended (forgetLiveVideo);
+// the expiry only guards against a caller that never checks.
+const CACHE_MS = 6 * 60 * 60 * 1000;
+// Lookups can be expensive (a YouTube search costs 100 quota units), so misses are
+// retried with a growing delay starting at 5 min. A channel that is simply not live
+// is looked at again within 30 min; failed lookups (quota, network) back off to 2 h.
+const MISS_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_NOT_LIVE_BACKOFF_MS = 30 * 60 * 1000;
+const MAX_FAILURE_BACKOFF_MS = 2 * 60 * 60 * 1000;
+
+// One resolver per platform; platforms without one have nothing to resolve
+const resolvers = new Map<PlatformId, LiveVideoResolver>();
+const cache = new Map<string, { expiresAt: number; lookup: Promise<LiveVideoLookup> }>();
+const misses = new Map<string, { failed: boolean; count: number }>(); // Consecutive misses of one kind per channel
+
+export const registerLiveVideoResolver = (platform: PlatformId, resolver: LiveVideoResolver) => {
+  resolvers.set(platform, resolver);
+};
+
+export const hasLiveVideoResolver = (platform: PlatformId) => resolvers.has(platform);
+
+// Never throws: a failed lookup is reported as `failed` so callers can tell it from an offline channel
+export const lookupLiveVideo = (platform: PlatformId, channelId: string): Promise<LiveVideoLookup> => {
+  const resolver = resolvers.get(platform);
+  if (!resolver || !channelId) return Promise.resolve({ videoId: null, failed: false });
+
+  const key = `${platform}:${channelId}`;
+  const entry = cache.get(key);
+  if (entry && Date.now() < entry.expiresAt) return entry.lookup;
+
+  const lookup = resolver.resolveVideoId(channelId).then(
+    (videoId): LiveVideoLookup => ({ videoId, failed: false }),
+    (error): LiveVideoLookup => {
+      console.warn(`Live video lookup failed (${resolver.id}: ${channelId}):`, error);
+      return { videoId: null, failed: true };
+    }
+  );
+  const created = { expiresAt: Date.now() + CACHE_MS, lookup };
+  cache.set(key, created);
+  lookup.then(({ videoId, failed }) => {
+    if (videoId) {
+      misses.delete(key);
+      return;
+    }
+    const previous = misses.get(key);
+    const count = previous?.failed === failed ? previous.count + 1 : 1;
+    misses.set(key, { failed, count });
+    const maxBackoff = failed ? MAX_FAILURE_BACKOFF_MS : MAX_NOT_LIVE_BACKOFF_MS;
+    created.expiresAt = Date.now() + Math.min(MISS_BACKOFF_MS * 2 ** (count - 1), maxBackoff);
+  });
+  return lookup;
+};
+
+// Same lookup for callers that only need the video id (null when unknown or not live)
+export const resolveLiveVideo = (platform: PlatformId, channelId: string): Promise<string | null> =>
+  lookupLiveVideo(platform, channelId).then(({ videoId }) => videoId);
+
+// Called when the resolved broadcast turned out to be over, so the next lookup starts fresh
+export const forgetLiveVideo = (platform: PlatformId, channelId: string) => {
+  const key = `${platform}:${channelId}`;
+  cache.delete(key);
+  misses.delete(key);
+};
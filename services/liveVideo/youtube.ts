@@ -0,0 +1,18 @@
+import { LiveVideoResolver } from '../../types';
+
+export const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3';
+
+// Channel ids (UC...) are searched for a live broadcast through the Data API;
+// anything else already is a video id. Without an API key channels stay unresolved.
+export const createYouTubeLiveVideoResolver = (apiKey: string, apiUrl = YOUTUBE_API_URL): LiveVideoResolver => ({
+  id: 'youtube-data-api',
+  resolveVideoId: async (channelId) => {
+    if (!channelId.startsWith('UC')) return channelId;
+    if (!apiKey) return null;
+    const response = await fetch(`${apiUrl}/search?part=id&type=video&eventType=live&channelId=${channelId}&key=${apiKey}`);
+    // A quota or server error says nothing about the channel being offline
+    if (!response.ok) throw new Error(`YouTube search failed (${response.status})`);
+    const body = await response.json();
+    return body?.items?.[0]?.id?.videoId || null;
+  },
+});
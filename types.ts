@@ -1,30 +1,299 @@
+import type React from 'react';
+
+// Built-in platforms. Others can be added through the adapter registry (platforms/registry.ts)
 export enum Platform {
   Twitch = 'Twitch',
   YouTube = 'YouTube',
   Kick = 'Kick',
+  Trovo = 'Trovo',
+  Facebook = 'Facebook',
+  Rumble = 'Rumble',
+  Generic = 'Generic', // Any embeddable player URL
+  Direct = 'Direct', // Raw HLS/DASH feed played natively
 }
 
+// Id of any registered platform (a built-in Platform or a custom adapter id)
+export type PlatformId = Platform | string;
+
 export interface StreamerConfig {
   id: string;
   name: string;
   avatarUrl: string; // Placeholder for now
   channels: {
-    [key in Platform]?: string; // Channel ID/Username per platform
+    [key in PlatformId]?: string; // Channel ID/Username per platform
   };
-  defaultPlatform: Platform;
+  defaultPlatform: PlatformId;
   color: string; // Brand accent color
 }
 
 export interface StreamState {
-  platform: Platform;
+  platform: PlatformId;
   isMuted: boolean;
+  volume: number; // 0–100, applied through the player API where available
 }
 
+// Where the other players go while one is in the spotlight
+export type SpotlightStrip = 'bottom' | 'side';
+
 export interface AppSettings {
   performanceMode: boolean; // Disables ambient animations
   cinemaMode: boolean; // Dims UI and hides chat
   streamsVisible: boolean; // Toggles the video player area
   chatWidth: number;
+  duckOthers: boolean; // Lowers the other players while the expanded one is audible
+  duckLevel: number; // Volume (%) the ducked players drop to
+  autoFailover: boolean; // Switch to a platform that is live when the current one is offline
+  failoverPriority: PlatformId[]; // Preferred platforms first
+  spotlightStrip: SpotlightStrip;
+}
+
+// Global keyboard shortcut actions (slotN expands/collapses the Nth visible player)
+export type ShortcutAction =
+  | 'slot1' | 'slot2' | 'slot3' | 'slot4' | 'slot5' | 'slot6' | 'slot7' | 'slot8' | 'slot9'
+  | 'toggleMute'
+  | 'soloAudio'
+  | 'toggleChat'
+  | 'cycleLayout'
+  | 'refreshAll'
+  | 'cinemaMode'
+  | 'performanceMode'
+  | 'showShortcuts';
+
+// Action -> normalized key it is bound to ('' when unbound)
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+// Entry in the Ctrl/Cmd+K command palette
+export interface PaletteCommand {
+  id: string; // Stable across renders, used to rank recent commands
+  label: string;
+  group: string;
+  keywords?: string[]; // Extra search terms (e.g. English synonyms)
+  run: () => void;
+}
+
+// Id of a layout definition (see layout/definitions.ts), e.g. 'columns', 'grid' or 'pyramid'
+export type LayoutMode = string;
+
+// Slot placement as fractions (0–1) of the stream area
+export interface LayoutRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Cell of a custom layout; `slot` is a position in the display order (0-based)
+export interface CustomLayoutCell {
+  slot: number;
+  weight: number; // Share of the row's width
+}
+
+export interface CustomLayoutRow {
+  weight: number; // Share of the area's height
+  cells: CustomLayoutCell[];
+}
+
+// Declarative layout, turned into slot rects by the layout engine:
+// 'tile' packs every slot into the grid with the least letterboxing, 'columns'
+// lines slots up along the longer side of the area, 'focus' gives the first
+// slot `focusSize` of the area (on `focusSide`) and tiles the rest next to it,
+// and 'custom' places slots in the user-drawn `rows`.
+export interface LayoutDefinition {
+  id: LayoutMode;
+  label: string;
+  kind: 'tile' | 'columns' | 'focus' | 'custom';
+  focusSize?: number; // 0–1, focus layouts only
+  focusSide?: 'top' | 'left';
+  minSlots?: number; // With fewer visible slots the layout falls back to tiling
+  rows?: CustomLayoutRow[]; // Custom layouts only
+}
+
+// Everything needed to reproduce a multistream view (used by share links)
+export interface SessionSnapshot {
+  visibleStreamers: string[];
+  streamerOrder: string[];
+  streamerStates: Record<string, PlatformId>;
+  layoutMode: LayoutMode;
+  expandedStreamerId: string | null;
+  settings: Partial<AppSettings>;
+}
+
+// Named snapshot of a complete viewing setup, switchable from the dock
+export interface WorkspacePreset {
+  id: string;
+  name: string;
+  visibleStreamers: string[];
+  streamerOrder: string[];
+  platforms: Record<string, PlatformId>;
+  layoutMode: LayoutMode;
+  isChatOpen: boolean;
+  chatWidth: number;
+  chatTab: string; // Streamer ID, or 'all' for the merged chat
+  cinemaMode: boolean;
+  performanceMode: boolean;
+}
+
+// Everything the app persists locally that travels in a configuration file.
+// Screen-dependent chat placement and command history stay on the device.
+export interface PersistedConfig {
+  roster: StreamerConfig[];
+  streamerStates: MultiStreamState;
+  layoutMode: LayoutMode;
+  visibleStreamers: string[];
+  streamerOrder: string[];
+  settings: AppSettings;
+  customLayouts: LayoutDefinition[];
+  presets: WorkspacePreset[];
+  shortcuts: ShortcutBindings;
+  audioFocus: string | null;
+}
+
+// Host information needed to build embed URLs (Twitch requires every allowed `parent` domain)
+export interface EmbedContext {
+  parents: string[];
+  hostname: string;
+  origin: string;
+}
+
+// Per-player state baked into the embed URL when it is (re)loaded
+export interface EmbedOptions {
+  muted: boolean;
+}
+
+// Everything the UI needs to know about a platform
+export interface PlatformAdapter {
+  id: PlatformId;
+  label: string;
+  Icon: React.FC<{ className?: string }>;
+  colors: {
+    brand: string; // Main brand color (dots, accents)
+    text: string; // Light tint readable on dark backgrounds
+  };
+  badgeClassName: string; // Platform badge on the stream slot HUD
+  activeClassName: string; // Selected entry in the platform selector
+  channelPlaceholder: string;
+  buildEmbedUrl: (channelId: string, ctx: EmbedContext, options: EmbedOptions) => string;
+  buildChatUrl: (channelId: string, ctx: EmbedContext) => string | null; // null when chat cannot be embedded for this id
+  buildPopoutUrl: (channelId: string) => string;
+  validateChannelId: (channelId: string) => string | null; // Error message, or null when valid
+  // 'native' plays the embed URL as a media source in a <video> instead of an iframe
+  renderMode?: 'iframe' | 'native';
+  // false when the embed cannot be muted at all (no player API and no mute parameter)
+  hasMuteControl?: boolean;
+  // Mutes a loaded player through its messaging API. Without it, the slot reloads the embed.
+  setMuted?: (frame: HTMLIFrameElement, muted: boolean) => void;
+  setVolume?: (frame: HTMLIFrameElement, volume: number) => void; // 0–1
+  // Opens the player's event channel once the iframe has loaded (e.g. a "listening" handshake)
+  subscribePlayerEvents?: (frame: HTMLIFrameElement) => void;
+  // Maps a message posted by the player iframe to a PlayerEvent, or null when irrelevant.
+  // `frame` identifies the sender, for adapters that compare a message with the previous one.
+  parsePlayerMessage?: (data: unknown, frame: HTMLIFrameElement) => PlayerEvent | null;
+}
+
+// Normalized playback event reported by a player ('progress' = playback is advancing)
+export type PlayerEvent = 'ready' | 'playing' | 'progress' | 'buffering' | 'paused' | 'ended' | 'offline' | 'error';
+
+// What a slot's player is doing right now, derived from load and player events
+export type PlayerState = 'loading' | 'playing' | 'buffering' | 'paused' | 'offline' | 'ended' | 'error';
+
+export type LiveStatus = 'live' | 'offline' | 'unknown';
+
+// Answers "is this channel live right now?" for one platform
+export interface LiveStatusProvider {
+  id: string;
+  checkChannel: (channelId: string) => Promise<LiveStatus>;
+}
+
+// Finds the video currently live on a channel (e.g. a YouTube UC... id), or null
+// when nothing is live. A lookup that could not be answered (quota, network) throws.
+export interface LiveVideoResolver {
+  id: string;
+  resolveVideoId: (channelId: string) => Promise<string | null>;
+}
+
+// Outcome of a cached live video lookup: `failed` means the answer is not known
+export interface LiveVideoLookup {
+  videoId: string | null;
+  failed: boolean;
+}
+
+// Streamer ID -> platform -> last known status
+export type LiveStatusMap = Record<string, { [key in PlatformId]?: LiveStatus }>;
+
+// --- Chat Aggregator ---
+
+// A run of plain text or a single emote inside a chat message
+export interface ChatFragment {
+  type: 'text' | 'emote';
+  text: string; // Emote name for emotes
+  url?: string; // Emote image
+}
+
+// One chat message, normalized across platforms
+export interface ChatMessage {
+  id: string;
+  platform: PlatformId;
+  author: string;
+  authorColor?: string;
+  fragments: ChatFragment[];
+  timestamp: number; // Epoch ms, used to order the merged feed
+}
+
+// 'unavailable' means the connector cannot run (no credentials, channel not live)
+export type ChatConnectionStatus = 'connecting' | 'connected' | 'error' | 'unavailable';
+
+export interface ChatConnectorHandlers {
+  onMessage: (message: ChatMessage) => void;
+  onStatus: (status: ChatConnectionStatus) => void;
+}
+
+// Streams one channel's chat; `connect` returns a function that disconnects it
+export interface ChatConnector {
+  id: string;
+  connect: (channelId: string, handlers: ChatConnectorHandlers) => () => void;
+}
+
+// Per-device chat wall columns (chat-only mode), keyed by streamer ID
+export interface ChatWallLayout {
+  widths: Record<string, number>; // px; columns without one share the free space
+  collapsed: string[];
+}
+
+export type ChatOverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Per-slot chat drawn semi-transparently over the video, kept per device
+export interface ChatOverlaySettings {
+  enabled: boolean;
+  corner: ChatOverlayCorner;
+  opacity: number; // %
+  width: number; // % of the slot width
+  fontScale: number; // %, the embedded chat is zoomed as a whole
+}
+
+// Where the chat panel sits; 'floating' is a draggable window over the grid
+export type ChatDockPosition = 'left' | 'right' | 'bottom' | 'floating';
+
+export interface ChatFloatingRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Per-device chat panel placement. The side docks keep using AppSettings.chatWidth
+export interface ChatDockSettings {
+  position: ChatDockPosition;
+  minWidth: number; // Resize clamp for the side docks and the floating window
+  maxWidth: number;
+  height: number; // Bottom dock
+  floating: ChatFloatingRect;
+}
+
+// One channel feeding the merged chat
+export interface ChatSource {
+  streamerId: string;
+  platform: PlatformId;
+  channelId: string;
 }
 
 // Map of streamer ID to their current state
@@ -0,0 +1,317 @@
+import { PersistedConfig, StreamerConfig } from '../types';
+import { STREAMERS, DEFAULT_SETTINGS, DEFAULT_SHORTCUTS, SHORTCUT_ACTIONS } from '../constants';
+import { getStoredValue, setStoredValue } from '../hooks/useLocalStorage';
+import {
+  STORAGE_KEYS,
+  STORAGE_SCHEMA_VERSION,
+  sanitizeRoster,
+  sanitizeStreamerStates,
+  sanitizeLayoutMode,
+  sanitizeVisibleStreamers,
+  sanitizeStreamerOrder,
+  sanitizeSettings,
+  sanitizeCustomLayouts,
+  sanitizePresets,
+  sanitizeShortcuts,
+  sanitizeAudioFocus,
+  isRecord,
+} from './storage';
+import { getLayoutDefinition } from '../layout';
+import { formatKey } from './shortcuts';
+
+const CONFIG_FORMAT = 'multi-viictorn-config';
+
+// Deliberately left out of exports: recentCommands (personal to the device) and
+// chatWall, chatDock and chatOverlays (they depend on the screen they were arranged on).
+
+export interface ConfigDocument {
+  format: typeof CONFIG_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: PersistedConfig;
+}
+
+export interface ConfigDiffEntry {
+  section: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ImportResult {
+  config: PersistedConfig | null;
+  warnings: string[];
+  error: string | null;
+}
+
+// --- Reading & Writing the Live Config ---
+
+export const readCurrentConfig = (): PersistedConfig => {
+  const roster = sanitizeRoster(getStoredValue(STORAGE_KEYS.roster, STREAMERS));
+  const customLayouts = sanitizeCustomLayouts(getStoredValue(STORAGE_KEYS.customLayouts, []));
+  return {
+    roster,
+    streamerStates: sanitizeStreamerStates(getStoredValue(STORAGE_KEYS.streamerStates, {}), roster),
+    layoutMode: sanitizeLayoutMode(getStoredValue(STORAGE_KEYS.layoutMode, 'columns'), customLayouts),
+    visibleStreamers: sanitizeVisibleStreamers(getStoredValue(STORAGE_KEYS.visibleStreamers, undefined), roster),
+    streamerOrder: sanitizeStreamerOrder(getStoredValue(STORAGE_KEYS.streamerOrder, []), roster),
+    settings: sanitizeSettings(getStoredValue(STORAGE_KEYS.settings, DEFAULT_SETTINGS)),
+    customLayouts,
+    presets: sanitizePresets(getStoredValue(STORAGE_KEYS.presets, []), roster, customLayouts),
+    shortcuts: sanitizeShortcuts(getStoredValue(STORAGE_KEYS.shortcuts, DEFAULT_SHORTCUTS)),
+    audioFocus: sanitizeAudioFocus(getStoredValue(STORAGE_KEYS.audioFocus, null), roster),
+  };
+};
+
+// Writes through the shared store so every mounted component updates immediately
+export const applyConfig = (config: PersistedConfig) => {
+  setStoredValue(STORAGE_KEYS.roster, config.roster);
+  setStoredValue(STORAGE_KEYS.streamerStates, config.streamerStates);
+  setStoredValue(STORAGE_KEYS.layoutMode, config.layoutMode);
+  setStoredValue(STORAGE_KEYS.visibleStreamers, config.visibleStreamers);
+  setStoredValue(STORAGE_KEYS.streamerOrder, config.streamerOrder);
+  setStoredValue(STORAGE_KEYS.settings, config.settings);
+  setStoredValue(STORAGE_KEYS.customLayouts, config.customLayouts);
+  setStoredValue(STORAGE_KEYS.presets, config.presets);
+  setStoredValue(STORAGE_KEYS.shortcuts, config.shortcuts);
+  setStoredValue(STORAGE_KEYS.audioFocus, config.audioFocus);
+};
+
+// --- Export ---
+
+export const buildConfigDocument = (config: PersistedConfig): ConfigDocument => ({
+  format: CONFIG_FORMAT,
+  schemaVersion: STORAGE_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: config,
+});
+
+export const downloadConfig = (config: PersistedConfig) => {
+  const doc = buildConfigDocument(config);
+  const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `multi-viictorn-config-${doc.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  // Some browsers start the download asynchronously, so the URL has to outlive the click
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Import ---
+
+/**
+ * Parses and validates an exported document. Each section goes through the
+ * same sanitizers as stored data; anything dropped is reported as a warning.
+ */
+export const parseConfigDocument = (text: string): ImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    console.warn('Invalid configuration file:', error);
+    return { config: null, warnings: [], error: 'O arquivo não é um JSON válido.' };
+  }
+
+  if (!isRecord(raw) || raw.format !== CONFIG_FORMAT || !isRecord(raw.data)) {
+    return { config: null, warnings: [], error: 'O arquivo não é uma configuração do Multi.' };
+  }
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > STORAGE_SCHEMA_VERSION) {
+    return { config: null, warnings: [], error: 'Configuração criada por uma versão mais nova do app.' };
+  }
+
+  const data = raw.data;
+  const warnings: string[] = [];
+
+  const current = readCurrentConfig();
+  const roster = Array.isArray(data.roster) ? sanitizeRoster(data.roster) : current.roster;
+  if (!Array.isArray(data.roster)) {
+    warnings.push('Lista de streamers ausente; a atual será mantida.');
+  } else if (roster.length !== data.roster.length) {
+    warnings.push(`${data.roster.length - roster.length} streamer(s) inválido(s) ignorado(s).`);
+  }
+
+  const knownIds = roster.map(s => s.id);
+  const unknownIds = [
+    ...(Array.isArray(data.streamerOrder) ? data.streamerOrder : []),
+    ...(Array.isArray(data.visibleStreamers) ? data.visibleStreamers : []),
+  ].filter((id): id is string => typeof id === 'string').filter((id, i, all) => !knownIds.includes(id) && all.indexOf(id) === i);
+  if (unknownIds.length > 0) {
+    warnings.push(`IDs desconhecidos removidos: ${unknownIds.join(', ')}.`);
+  }
+
+  // Exports made before custom layouts existed simply have none
+  const customLayouts = sanitizeCustomLayouts(data.customLayouts);
+  if (Array.isArray(data.customLayouts) && customLayouts.length !== data.customLayouts.length) {
+    warnings.push(`${data.customLayouts.length - customLayouts.length} layout(s) personalizado(s) inválido(s) ignorado(s).`);
+  }
+
+  const presets = sanitizePresets(data.presets, roster, customLayouts);
+  if (Array.isArray(data.presets) && presets.length !== data.presets.length) {
+    warnings.push(`${data.presets.length - presets.length} preset(s) inválido(s) ignorado(s).`);
+  }
+
+  return {
+    error: null,
+    warnings,
+    config: {
+      roster,
+      streamerStates: sanitizeStreamerStates(data.streamerStates, roster),
+      layoutMode: sanitizeLayoutMode(data.layoutMode, customLayouts),
+      visibleStreamers: sanitizeVisibleStreamers(data.visibleStreamers, roster),
+      streamerOrder: sanitizeStreamerOrder(data.streamerOrder, roster),
+      settings: sanitizeSettings(data.settings),
+      customLayouts,
+      presets,
+      // Exports made before these were included leave the current values untouched
+      shortcuts: 'shortcuts' in data ? sanitizeShortcuts(data.shortcuts) : current.shortcuts,
+      audioFocus: 'audioFocus' in data ? sanitizeAudioFocus(data.audioFocus, roster) : sanitizeAudioFocus(current.audioFocus, roster),
+    },
+  };
+};
+
+// Incoming values win, but streamers that only exist locally are kept
+export const mergeConfig = (current: PersistedConfig, incoming: PersistedConfig): PersistedConfig => {
+  const roster: StreamerConfig[] = [
+    ...current.roster.map(s => incoming.roster.find(i => i.id === s.id) || s),
+    ...incoming.roster.filter(i => !current.roster.some(s => s.id === i.id)),
+  ];
+  const localOnly = current.roster.filter(s => !incoming.roster.some(i => i.id === s.id)).map(s => s.id);
+  const customLayouts = [
+    ...current.customLayouts.map(l => incoming.customLayouts.find(i => i.id === l.id) || l),
+    ...incoming.customLayouts.filter(i => !current.customLayouts.some(l => l.id === i.id)),
+  ];
+
+  return {
+    roster,
+    streamerStates: sanitizeStreamerStates({ ...current.streamerStates, ...incoming.streamerStates }, roster),
+    layoutMode: incoming.layoutMode,
+    visibleStreamers: sanitizeVisibleStreamers(
+      [...incoming.visibleStreamers, ...current.visibleStreamers.filter(id => localOnly.includes(id))],
+      roster
+    ),
+    streamerOrder: sanitizeStreamerOrder([...incoming.streamerOrder, ...current.streamerOrder], roster),
+    settings: incoming.settings,
+    customLayouts,
+    presets: sanitizePresets([
+      ...current.presets.map(p => incoming.presets.find(i => i.id === p.id) || p),
+      ...incoming.presets.filter(i => !current.presets.some(p => p.id === i.id)),
+    ], roster, customLayouts),
+    shortcuts: incoming.shortcuts,
+    audioFocus: incoming.audioFocus,
+  };
+};
+
+// --- Diff Preview ---
+
+const streamerName = (roster: StreamerConfig[], id: string) => roster.find(s => s.id === id)?.name || id;
+
+const describeList = (roster: StreamerConfig[], ids: string[]) =>
+  ids.length > 0 ? ids.map(id => streamerName(roster, id)).join(', ') : '—';
+
+export const diffConfig = (current: PersistedConfig, next: PersistedConfig): ConfigDiffEntry[] => {
+  const diff: ConfigDiffEntry[] = [];
+
+  next.roster.forEach(s => {
+    const existing = current.roster.find(c => c.id === s.id);
+    if (!existing) {
+      diff.push({ section: 'Streamers', label: s.name, from: '—', to: 'Adicionado' });
+    } else if (JSON.stringify(existing) !== JSON.stringify(s)) {
+      diff.push({ section: 'Streamers', label: s.name, from: 'Atual', to: 'Alterado' });
+    }
+  });
+  current.roster
+    .filter(c => !next.roster.some(s => s.id === c.id))
+    .forEach(c => diff.push({ section: 'Streamers', label: c.name, from: 'Atual', to: 'Removido' }));
+
+  if (current.streamerOrder.join() !== next.streamerOrder.join()) {
+    diff.push({
+      section: 'Ordem',
+      label: 'Ordem dos players',
+      from: describeList(current.roster, current.streamerOrder),
+      to: describeList(next.roster, next.streamerOrder),
+    });
+  }
+
+  if ([...current.visibleStreamers].sort().join() !== [...next.visibleStreamers].sort().join()) {
+    diff.push({
+      section: 'Visíveis',
+      label: 'Players visíveis',
+      from: describeList(current.roster, current.visibleStreamers),
+      to: describeList(next.roster, next.visibleStreamers),
+    });
+  }
+
+  next.roster.forEach(s => {
+    const from = current.streamerStates[s.id];
+    const to = next.streamerStates[s.id];
+    if (!from || !to) return;
+    if (from.platform !== to.platform) {
+      diff.push({ section: 'Plataformas', label: s.name, from: from.platform, to: to.platform });
+    }
+    if (from.isMuted !== to.isMuted) {
+      diff.push({ section: 'Áudio', label: s.name, from: from.isMuted ? 'Mudo' : 'Com som', to: to.isMuted ? 'Mudo' : 'Com som' });
+    }
+  });
+
+  if (current.audioFocus !== next.audioFocus) {
+    diff.push({
+      section: 'Áudio',
+      label: 'Foco de áudio',
+      from: current.audioFocus ? streamerName(current.roster, current.audioFocus) : '—',
+      to: next.audioFocus ? streamerName(next.roster, next.audioFocus) : '—',
+    });
+  }
+
+  if (current.layoutMode !== next.layoutMode) {
+    diff.push({
+      section: 'Layout',
+      label: 'Modo',
+      from: getLayoutDefinition(current.layoutMode, current.customLayouts)?.label ?? current.layoutMode,
+      to: getLayoutDefinition(next.layoutMode, next.customLayouts)?.label ?? next.layoutMode,
+    });
+  }
+
+  next.customLayouts.forEach(l => {
+    const existing = current.customLayouts.find(c => c.id === l.id);
+    if (!existing) {
+      diff.push({ section: 'Layouts', label: l.label, from: '—', to: 'Adicionado' });
+    } else if (JSON.stringify(existing) !== JSON.stringify(l)) {
+      diff.push({ section: 'Layouts', label: l.label, from: 'Atual', to: 'Alterado' });
+    }
+  });
+  current.customLayouts
+    .filter(c => !next.customLayouts.some(l => l.id === c.id))
+    .forEach(c => diff.push({ section: 'Layouts', label: c.label, from: 'Atual', to: 'Removido' }));
+
+  next.presets.forEach(p => {
+    const existing = current.presets.find(c => c.id === p.id);
+    if (!existing) {
+      diff.push({ section: 'Presets', label: p.name, from: '—', to: 'Adicionado' });
+    } else if (JSON.stringify(existing) !== JSON.stringify(p)) {
+      diff.push({ section: 'Presets', label: p.name, from: 'Atual', to: 'Alterado' });
+    }
+  });
+  current.presets
+    .filter(c => !next.presets.some(p => p.id === c.id))
+    .forEach(c => diff.push({ section: 'Presets', label: c.name, from: 'Atual', to: 'Removido' }));
+
+  (Object.keys(next.settings) as (keyof PersistedConfig['settings'])[]).forEach(key => {
+    if (JSON.stringify(current.settings[key]) !== JSON.stringify(next.settings[key])) {
+      diff.push({ section: 'Preferências', label: key, from: String(current.settings[key]), to: String(next.settings[key]) });
+    }
+  });
+
+  SHORTCUT_ACTIONS.forEach(({ id, label }) => {
+    if (current.shortcuts[id] !== next.shortcuts[id]) {
+      diff.push({
+        section: 'Atalhos',
+        label,
+        from: formatKey(current.shortcuts[id]),
+        to: formatKey(next.shortcuts[id]),
+      });
+    }
+  });
+
+  return diff;
+};
@@ -0,0 +1,19 @@
+import { LiveStatusMap, PlatformId, StreamerConfig } from '../types';
+
+/**
+ * Picks the platform a slot should fail over to, or null to stay put. Only a
+ * confirmed 'offline' triggers a switch (an 'unknown' status never does), and
+ * the target is the first live platform in priority order.
+ */
+export const pickFailoverPlatform = (
+  streamer: StreamerConfig,
+  current: PlatformId,
+  statuses: LiveStatusMap[string] | undefined,
+  priority: PlatformId[]
+): PlatformId | null => {
+  if (!statuses || statuses[current] !== 'offline') return null;
+  const target = priority.find(p =>
+    p !== current && Boolean(streamer.channels[p]?.trim()) && statuses[p] === 'live'
+  );
+  return target ?? null;
+};
@@ -0,0 +1,46 @@
+// Case- and accent-insensitive, so "piramide" finds "Pirâmide"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Connecting words in a phrased query ("open Kick chat for Coringa", "abrir chat de ...")
+const STOPWORDS = new Set(['a', 'o', 'as', 'os', 'de', 'do', 'da', 'dos', 'das', 'para', 'pra', 'no', 'na', 'em', 'the', 'for', 'to', 'of', 'on', 'in']);
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-→/(]/.test(text[index - 1]);
+
+// Substring hits score highest; otherwise every character has to appear in
+// order, with bonuses for consecutive runs and word starts.
+const scoreToken = (token: string, text: string): number | null => {
+  const index = text.indexOf(token);
+  if (index !== -1) return 100 + token.length * 2 + (isWordStart(text, index) ? 20 : 0) - index * 0.1;
+
+  let score = 0;
+  let cursor = 0;
+  let previous = -2;
+  for (const char of token) {
+    const found = text.indexOf(char, cursor);
+    if (found === -1) return null;
+    score += found === previous + 1 ? 5 : 1;
+    if (isWordStart(text, found)) score += 3;
+    previous = found;
+    cursor = found + 1;
+  }
+  return score;
+};
+
+/**
+ * Scores `text` against a whitespace-separated query. Every word of the query
+ * (stopwords aside) must match somewhere in the text; returns null when one does not.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const haystack = fold(text);
+  const words = fold(query).split(/\s+/).filter(Boolean);
+  // A query made only of stopwords is still matched as typed
+  const meaningful = words.filter(word => !STOPWORDS.has(word));
+  const tokens = meaningful.length > 0 ? meaningful : words;
+  let total = 0;
+  for (const token of tokens) {
+    const score = scoreToken(token, haystack);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+};
@@ -0,0 +1,146 @@
+// --- Adaptive Playback Engines ---
+// Attaches the right engine for a direct media URL: hls.js for .m3u8 (or the
+// browser itself where HLS is native, e.g. Safari), dash.js for .mpd and a
+// plain <video src> for anything else. Engines are imported on demand so the
+// iframe-only setups never download them.
+
+import type { ErrorEvent as DashErrorEvent } from 'dashjs';
+
+export type MediaKind = 'hls' | 'dash' | 'file';
+
+export interface QualityLevel {
+  index: number;
+  label: string;
+}
+
+export interface MediaEngine {
+  getLevels: () => QualityLevel[];
+  getCurrentLevel: () => number; // -1 while automatic selection is on
+  setLevel: (index: number) => void; // -1 returns to automatic selection
+  isLive: () => boolean;
+  getLatency: () => number | null; // Seconds behind the live edge
+  seekToLiveEdge: () => void;
+  destroy: () => void;
+}
+
+export const getMediaKind = (src: string): MediaKind => {
+  const path = src.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.m3u8')) return 'hls';
+  if (path.endsWith('.mpd')) return 'dash';
+  return 'file';
+};
+
+const formatLevel = (height: number | undefined, bitrate: number) =>
+  height ? `${height}p` : `${Math.round(bitrate / 1000)}k`;
+
+// Fallbacks based on the element itself, used when the engine exposes nothing better
+const seekableEnd = (video: HTMLVideoElement) =>
+  video.seekable.length > 0 ? video.seekable.end(video.seekable.length - 1) : null;
+
+const isVideoLive = (video: HTMLVideoElement) => video.duration === Infinity;
+
+const nativeEngine = (video: HTMLVideoElement, src: string): MediaEngine => {
+  video.src = src;
+  return {
+    getLevels: () => [],
+    getCurrentLevel: () => -1,
+    setLevel: () => {},
+    isLive: () => isVideoLive(video),
+    getLatency: () => {
+      const end = seekableEnd(video);
+      return isVideoLive(video) && end !== null ? Math.max(0, end - video.currentTime) : null;
+    },
+    seekToLiveEdge: () => {
+      const end = seekableEnd(video);
+      if (end !== null) video.currentTime = end;
+    },
+    destroy: () => {
+      video.removeAttribute('src');
+      video.load();
+    },
+  };
+};
+
+const hlsEngine = async (video: HTMLVideoElement, src: string, onError: (message: string) => void): Promise<MediaEngine> => {
+  const { default: Hls } = await import('hls.js');
+  if (!Hls.isSupported()) {
+    if (video.canPlayType('application/vnd.apple.mpegurl')) return nativeEngine(video, src);
+    throw new Error('HLS is not supported in this browser');
+  }
+
+  const hls = new Hls({ lowLatencyMode: true, backBufferLength: 30 });
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+    // Recoverable failures are retried in place before giving up
+    if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+      hls.startLoad();
+    } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+      hls.recoverMediaError();
+    } else {
+      onError(data.details);
+    }
+  });
+  hls.loadSource(src);
+  hls.attachMedia(video);
+
+  const currentDetails = () => hls.levels[hls.currentLevel]?.details;
+
+  return {
+    getLevels: () => hls.levels.map((level, index) => ({ index, label: formatLevel(level.height, level.bitrate) })),
+    getCurrentLevel: () => (hls.autoLevelEnabled ? -1 : hls.currentLevel),
+    setLevel: (index) => { hls.currentLevel = index; },
+    isLive: () => Boolean(currentDetails()?.live),
+    getLatency: () => (currentDetails()?.live ? hls.latency : null),
+    seekToLiveEdge: () => {
+      if (hls.liveSyncPosition !== null) video.currentTime = hls.liveSyncPosition;
+    },
+    destroy: () => hls.destroy(),
+  };
+};
+
+// Player errors carry a message; the older generic ones only name their category
+const describeDashError = (event: DashErrorEvent) =>
+  typeof event.error === 'string' ? event.error : event.error.message || 'dash error';
+
+const dashEngine = async (video: HTMLVideoElement, src: string, onError: (message: string) => void): Promise<MediaEngine> => {
+  const { default: dashjs } = await import('dashjs');
+  const player = dashjs.MediaPlayer().create();
+  player.on(dashjs.MediaPlayer.events.ERROR, (event: DashErrorEvent) => onError(describeDashError(event)));
+  player.initialize(video, src, true);
+
+  const setAutoQuality = (enabled: boolean) =>
+    player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: enabled } } } });
+
+  return {
+    getLevels: () => player.getBitrateInfoListFor('video').map(info => ({
+      index: info.qualityIndex,
+      label: formatLevel(info.height, info.bitrate),
+    })),
+    getCurrentLevel: () =>
+      player.getSettings().streaming?.abr?.autoSwitchBitrate?.video === false ? player.getQualityFor('video') : -1,
+    setLevel: (index) => {
+      setAutoQuality(index < 0);
+      if (index >= 0) player.setQualityFor('video', index);
+    },
+    isLive: () => player.isReady() && player.isDynamic(),
+    getLatency: () => (player.isReady() && player.isDynamic() ? player.getCurrentLiveLatency() : null),
+    seekToLiveEdge: () => player.seekToOriginalLive(),
+    destroy: () => player.reset(),
+  };
+};
+
+// Resolves once the engine is attached; playback errors after that go to onError
+export const createMediaEngine = (
+  video: HTMLVideoElement,
+  src: string,
+  onError: (message: string) => void
+): Promise<MediaEngine> => {
+  switch (getMediaKind(src)) {
+    case 'hls':
+      return hlsEngine(video, src, onError);
+    case 'dash':
+      return dashEngine(video, src, onError);
+    default:
+      return Promise.resolve(nativeEngine(video, src));
+  }
+};
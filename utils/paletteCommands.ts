@@ -0,0 +1,197 @@
+import { AppSettings, ChatDockPosition, ChatOverlaySettings, LayoutDefinition, LayoutMode, MultiStreamState, PaletteCommand, PlatformId, StreamerConfig, WorkspacePreset } from '../types';
+import { getPlatformAdapter, isRegisteredPlatform } from '../platforms';
+import { getAllLayouts } from '../layout';
+import { DEFAULT_PRESET_ID } from './presets';
+
+export const MAX_RECENT_COMMANDS = 8;
+
+// Everything the palette can act on, as wired up by App
+export interface PaletteContext {
+  roster: StreamerConfig[];
+  streamerStates: MultiStreamState;
+  visibleStreamers: string[];
+  expandedStreamerId: string | null;
+  audioFocusId: string | null;
+  layoutMode: LayoutMode;
+  customLayouts: LayoutDefinition[];
+  presets: WorkspacePreset[];
+  settings: AppSettings;
+  isChatOpen: boolean;
+  chatPosition: ChatDockPosition;
+  chatOverlays: Record<string, ChatOverlaySettings>;
+  onSetLayout: (mode: LayoutMode) => void;
+  onUpdateSettings: (patch: Partial<AppSettings>) => void;
+  onToggleChat: () => void;
+  onSetChatPosition: (position: ChatDockPosition) => void;
+  onRefreshAll: () => void;
+  onResetLayout: () => void;
+  onResetOrder: () => void;
+  onCopyShareLink: () => void;
+  onOpenRosterEditor: () => void;
+  onOpenConfigTransfer: () => void;
+  onOpenShortcuts: () => void;
+  onNewLayout: () => void;
+  onApplyPreset: (id: string) => void;
+  onCycleAudioFocus: () => void;
+  onToggleExpand: (id: string) => void;
+  onToggleVisibility: (id: string) => void;
+  onToggleMute: (id: string) => void;
+  onSoloAudio: (id: string) => void;
+  onPlatformChange: (id: string, platform: PlatformId) => void;
+  onOpenChat: (id: string, platform: PlatformId) => void;
+  onToggleChatOverlay: (id: string) => void;
+}
+
+const CHAT_POSITION_LABELS: Record<ChatDockPosition, string> = {
+  left: 'à esquerda',
+  right: 'à direita',
+  bottom: 'embaixo',
+  floating: 'flutuante',
+};
+
+const globalCommands = (ctx: PaletteContext): PaletteCommand[] => [
+  { id: 'refresh-all', label: 'Recarregar tudo', group: 'Geral', keywords: ['reload', 'refresh'], run: ctx.onRefreshAll },
+  { id: 'toggle-chat', label: ctx.isChatOpen ? 'Fechar chat' : 'Abrir chat', group: 'Geral', keywords: ['chat'], run: ctx.onToggleChat },
+  ...(Object.keys(CHAT_POSITION_LABELS) as ChatDockPosition[]).map(position => ({
+    id: `chat-position:${position}`,
+    label: `Chat ${CHAT_POSITION_LABELS[position]}${ctx.chatPosition === position ? ' (atual)' : ''}`,
+    group: 'Geral',
+    keywords: ['chat', 'dock', 'position', position],
+    run: () => ctx.onSetChatPosition(position),
+  })),
+  { id: 'share', label: 'Copiar link da sessão', group: 'Geral', keywords: ['share', 'link'], run: ctx.onCopyShareLink },
+  { id: 'roster', label: 'Editar streamers', group: 'Geral', keywords: ['roster', 'edit'], run: ctx.onOpenRosterEditor },
+  { id: 'config', label: 'Importar / exportar configuração', group: 'Geral', keywords: ['import', 'export', 'backup'], run: ctx.onOpenConfigTransfer },
+  { id: 'shortcuts', label: 'Atalhos de teclado', group: 'Geral', keywords: ['keyboard', 'shortcuts', 'keys'], run: ctx.onOpenShortcuts },
+  { id: 'reset-order', label: 'Restaurar ordem dos players', group: 'Layout', keywords: ['order', 'reset'], run: ctx.onResetOrder },
+  { id: 'reset-layout', label: 'Resetar layout', group: 'Layout', keywords: ['reset', 'default'], run: ctx.onResetLayout },
+  { id: 'new-layout', label: 'Novo layout personalizado', group: 'Layout', keywords: ['layout', 'custom', 'editor'], run: ctx.onNewLayout },
+  ...getAllLayouts(ctx.customLayouts).map(layout => ({
+    id: `layout:${layout.id}`,
+    label: `Layout: ${layout.label}${ctx.layoutMode === layout.id ? ' (atual)' : ''}`,
+    group: 'Layout',
+    keywords: ['layout', layout.id],
+    run: () => ctx.onSetLayout(layout.id),
+  })),
+  { id: `preset:${DEFAULT_PRESET_ID}`, label: 'Preset: Padrão', group: 'Presets', keywords: ['preset', 'workspace', 'default'], run: () => ctx.onApplyPreset(DEFAULT_PRESET_ID) },
+  ...ctx.presets.map(preset => ({
+    id: `preset:${preset.id}`,
+    label: `Preset: ${preset.name}`,
+    group: 'Presets',
+    keywords: ['preset', 'workspace'],
+    run: () => ctx.onApplyPreset(preset.id),
+  })),
+  {
+    id: 'setting:spotlightStrip',
+    label: `Miniaturas do destaque: ${ctx.settings.spotlightStrip === 'side' ? 'embaixo' : 'na lateral'}`,
+    group: 'Layout',
+    keywords: ['spotlight', 'thumbnails', 'expand'],
+    run: () => ctx.onUpdateSettings({ spotlightStrip: ctx.settings.spotlightStrip === 'side' ? 'bottom' : 'side' }),
+  },
+  { id: 'solo-next', label: 'Solo áudio: próximo player', group: 'Áudio', keywords: ['solo', 'focus', 'audio'], run: ctx.onCycleAudioFocus },
+  {
+    id: 'setting:duckOthers',
+    label: `Abaixar outros: ${ctx.settings.duckOthers ? 'desligar' : 'ligar'}`,
+    group: 'Áudio',
+    keywords: ['duck', 'volume'],
+    run: () => ctx.onUpdateSettings({ duckOthers: !ctx.settings.duckOthers }),
+  },
+  {
+    id: 'setting:cinemaMode',
+    label: ctx.settings.cinemaMode ? 'Sair do modo cinema' : 'Modo cinema',
+    group: 'Configurações',
+    keywords: ['cinema', 'theater'],
+    run: () => ctx.onUpdateSettings({ cinemaMode: !ctx.settings.cinemaMode }),
+  },
+  {
+    id: 'setting:performanceMode',
+    label: ctx.settings.performanceMode ? 'Ativar animações' : 'Modo performance',
+    group: 'Configurações',
+    keywords: ['performance', 'animations'],
+    run: () => ctx.onUpdateSettings({ performanceMode: !ctx.settings.performanceMode }),
+  },
+  {
+    id: 'setting:streamsVisible',
+    label: ctx.settings.streamsVisible ? 'Modo chat (ocultar vídeo)' : 'Mostrar vídeo',
+    group: 'Configurações',
+    keywords: ['video', 'streams', 'hide'],
+    run: () => ctx.onUpdateSettings({ streamsVisible: !ctx.settings.streamsVisible }),
+  },
+  {
+    id: 'setting:autoFailover',
+    label: `Troca automática de plataforma: ${ctx.settings.autoFailover ? 'desligar' : 'ligar'}`,
+    group: 'Configurações',
+    keywords: ['failover', 'auto'],
+    run: () => ctx.onUpdateSettings({ autoFailover: !ctx.settings.autoFailover }),
+  },
+];
+
+const streamerCommands = (ctx: PaletteContext, s: StreamerConfig): PaletteCommand[] => {
+  const state = ctx.streamerStates[s.id];
+  const current = state?.platform || s.defaultPlatform;
+  const isVisible = ctx.visibleStreamers.includes(s.id);
+  const isMuted = state?.isMuted ?? true;
+  const platforms = (Object.keys(s.channels) as PlatformId[]).filter(p => isRegisteredPlatform(p) && s.channels[p]);
+
+  return [
+    {
+      id: `streamer:${s.id}:expand`,
+      label: `${ctx.expandedStreamerId === s.id ? 'Recolher' : 'Expandir'} ${s.name}`,
+      group: s.name,
+      keywords: ['expand', 'collapse'],
+      run: () => ctx.onToggleExpand(s.id),
+    },
+    {
+      id: `streamer:${s.id}:visibility`,
+      label: `${isVisible ? 'Ocultar' : 'Mostrar'} ${s.name}`,
+      group: s.name,
+      keywords: [isVisible ? 'hide' : 'show'],
+      run: () => ctx.onToggleVisibility(s.id),
+    },
+    {
+      id: `streamer:${s.id}:mute`,
+      label: `${isMuted ? 'Ativar som de' : 'Silenciar'} ${s.name}`,
+      group: s.name,
+      keywords: [isMuted ? 'unmute' : 'mute'],
+      run: () => ctx.onToggleMute(s.id),
+    },
+    {
+      id: `streamer:${s.id}:solo`,
+      label: `${ctx.audioFocusId === s.id ? 'Sair do solo de' : 'Solo áudio:'} ${s.name}`,
+      group: s.name,
+      keywords: ['solo', 'focus'],
+      run: () => ctx.onSoloAudio(s.id),
+    },
+    ...platforms.filter(p => p !== current).map(p => ({
+      id: `streamer:${s.id}:platform:${p}`,
+      label: `${s.name} → ${getPlatformAdapter(p)?.label || p}`,
+      group: s.name,
+      keywords: ['platform', 'switch'],
+      run: () => ctx.onPlatformChange(s.id, p),
+    })),
+    // Chats that cannot be embedded still open their tab, which links out to the platform
+    ...platforms.map(p => ({
+      id: `streamer:${s.id}:chat:${p}`,
+      label: `Abrir chat ${getPlatformAdapter(p)?.label || p} de ${s.name}`,
+      group: s.name,
+      keywords: ['chat', 'open'],
+      run: () => ctx.onOpenChat(s.id, p),
+    })),
+    {
+      id: `streamer:${s.id}:chat-overlay`,
+      label: `${ctx.chatOverlays[s.id]?.enabled ? 'Ocultar chat na tela de' : 'Chat na tela:'} ${s.name}`,
+      group: s.name,
+      keywords: ['chat', 'overlay', 'cinema'],
+      run: () => ctx.onToggleChatOverlay(s.id),
+    },
+  ];
+};
+
+// Rebuilt on every render, so labels always reflect the current state
+export const buildPaletteCommands = (ctx: PaletteContext): PaletteCommand[] => [
+  ...globalCommands(ctx),
+  ...ctx.roster.flatMap(s => streamerCommands(ctx, s)),
+];
+
+export const pushRecentCommand = (recent: string[], id: string) =>
+  [id, ...recent.filter(r => r !== id)].slice(0, MAX_RECENT_COMMANDS);
@@ -0,0 +1,35 @@
+import { StreamerConfig, WorkspacePreset } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { DEFAULT_LAYOUT_ID } from '../layout';
+
+// The built-in preset is never stored: it is rebuilt from the current roster
+export const DEFAULT_PRESET_ID = 'default';
+
+export const createDefaultPreset = (roster: StreamerConfig[]): WorkspacePreset => ({
+  id: DEFAULT_PRESET_ID,
+  name: 'Padrão',
+  visibleStreamers: roster.map(s => s.id),
+  streamerOrder: roster.map(s => s.id),
+  platforms: roster.reduce((acc, s) => ({ ...acc, [s.id]: s.defaultPlatform }), {}),
+  layoutMode: DEFAULT_LAYOUT_ID,
+  isChatOpen: true,
+  chatWidth: DEFAULT_SETTINGS.chatWidth,
+  chatTab: 'all',
+  cinemaMode: DEFAULT_SETTINGS.cinemaMode,
+  performanceMode: DEFAULT_SETTINGS.performanceMode,
+});
+
+export const createPresetId = (takenIds: string[]) => {
+  let id = `preset-${Date.now().toString(36)}`;
+  for (let i = 2; takenIds.includes(id) || id === DEFAULT_PRESET_ID; i++) id = `preset-${Date.now().toString(36)}-${i}`;
+  return id;
+};
+
+export const movePreset = (presets: WorkspacePreset[], id: string, direction: 'up' | 'down') => {
+  const index = presets.findIndex(p => p.id === id);
+  const target = direction === 'up' ? index - 1 : index + 1;
+  if (index < 0 || target < 0 || target >= presets.length) return presets;
+  const next = [...presets];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
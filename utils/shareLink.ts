@@ -0,0 +1,108 @@
+import { AppSettings, LayoutDefinition, PlatformId, SessionSnapshot, StreamerConfig } from '../types';
+import { sanitizeLayoutMode } from './storage';
+import { isRegisteredPlatform } from '../platforms';
+
+// Hash parameter that carries the encoded session
+const SHARE_PARAM = 'session';
+const SHARE_VERSION = 1;
+
+// Settings that describe the view itself (chat width depends on the viewer's screen)
+const SHARED_SETTINGS: (keyof AppSettings)[] = ['performanceMode', 'cinemaMode', 'streamsVisible'];
+
+// --- Encoding (UTF-8 safe base64url) ---
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const encodeSession = (snapshot: SessionSnapshot): string => {
+  const settings = SHARED_SETTINGS.reduce((acc, key) => (
+    snapshot.settings[key] === undefined ? acc : { ...acc, [key]: snapshot.settings[key] }
+  ), {} as Partial<AppSettings>);
+
+  return toBase64Url(JSON.stringify({
+    v: SHARE_VERSION,
+    visible: snapshot.visibleStreamers,
+    order: snapshot.streamerOrder,
+    platforms: snapshot.streamerStates,
+    layout: snapshot.layoutMode,
+    expanded: snapshot.expandedStreamerId,
+    settings,
+  }));
+};
+
+export const buildShareUrl = (snapshot: SessionSnapshot): string => {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}#${SHARE_PARAM}=${encodeSession(snapshot)}`;
+};
+
+// --- Decoding ---
+
+/**
+ * Reads a shared session from a URL hash. Streamer ids are checked against the
+ * local roster so a link built with a different lineup degrades gracefully; a
+ * custom layout is kept only if it is saved on this device too.
+ */
+export const readSharedSession = (hash: string, roster: StreamerConfig[], customLayouts: LayoutDefinition[] = []): SessionSnapshot | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(SHARE_PARAM);
+  if (!encoded) return null;
+
+  try {
+    const raw = JSON.parse(fromBase64Url(encoded));
+    if (!raw || raw.v !== SHARE_VERSION) return null;
+
+    const knownIds = roster.map(s => s.id);
+    const isKnown = (id: unknown): id is string => typeof id === 'string' && knownIds.includes(id);
+
+    const order: string[] = Array.isArray(raw.order) ? raw.order.filter(isKnown) : [];
+    const visible: string[] = Array.isArray(raw.visible) ? raw.visible.filter(isKnown) : [];
+
+    const streamerStates: Record<string, PlatformId> = {};
+    if (raw.platforms && typeof raw.platforms === 'object') {
+      roster.forEach(s => {
+        const platform = raw.platforms[s.id];
+        if (isRegisteredPlatform(platform) && s.channels[platform]) {
+          streamerStates[s.id] = platform;
+        }
+      });
+    }
+
+    const settings: Partial<AppSettings> = {};
+    if (raw.settings && typeof raw.settings === 'object') {
+      SHARED_SETTINGS.forEach(key => {
+        if (typeof raw.settings[key] === 'boolean') {
+          (settings as Record<string, boolean>)[key] = raw.settings[key];
+        }
+      });
+    }
+
+    return {
+      visibleStreamers: visible,
+      // Streamers missing from the link keep their place at the end
+      streamerOrder: [...order, ...knownIds.filter(id => !order.includes(id))],
+      streamerStates,
+      layoutMode: sanitizeLayoutMode(raw.layout, customLayouts),
+      expandedStreamerId: isKnown(raw.expanded) ? raw.expanded : null,
+      settings,
+    };
+  } catch (error) {
+    console.warn('Invalid shared session link:', error);
+    return null;
+  }
+};
+
+export const clearShareHash = () => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', `${pathname}${search}`);
+};
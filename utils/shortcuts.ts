@@ -0,0 +1,42 @@
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+// Keys that can never be bound (Escape closes overlays and cancels remapping)
+const RESERVED_KEYS = ['Escape', 'Tab', 'Enter', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Espaço',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+// Single characters are case-insensitive so Caps Lock does not break bindings
+export const normalizeKey = (event: KeyboardEvent): string =>
+  event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+export const isBindableKey = (key: string) => key !== '' && !RESERVED_KEYS.includes(key);
+
+export const formatKey = (key: string) => {
+  if (!key) return '—';
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+};
+
+// Shortcuts stay out of the way while the user is typing
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const findShortcutAction = (bindings: ShortcutBindings, key: string): ShortcutAction | null => {
+  const match = (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === key);
+  return match ?? null;
+};
+
+// Binds `key` to `action`; the action that previously owned the key takes over the old binding
+export const rebindShortcut = (bindings: ShortcutBindings, action: ShortcutAction, key: string): ShortcutBindings => {
+  const owner = findShortcutAction(bindings, key);
+  const next = { ...bindings, [action]: key };
+  if (owner && owner !== action) next[owner] = bindings[action];
+  return next;
+};
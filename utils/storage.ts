@@ -0,0 +1,451 @@
+import { AppSettings, ChatDockPosition, ChatDockSettings, ChatOverlayCorner, ChatOverlaySettings, CustomLayoutRow, LayoutDefinition, LayoutMode, MultiStreamState, PlatformId, ChatWallLayout, ShortcutBindings, StreamerConfig, WorkspacePreset } from '../types';
+import { STREAMERS, DEFAULT_SETTINGS, DEFAULT_CHAT_DOCK, DEFAULT_CHAT_OVERLAY, DEFAULT_SHORTCUTS, SHORTCUT_ACTIONS } from '../constants';
+import { getPlatformIds, isRegisteredPlatform } from '../platforms';
+import { MAX_RECENT_COMMANDS } from './paletteCommands';
+import { CUSTOM_LAYOUT_PREFIX, DEFAULT_LAYOUT_ID, isLayoutId } from '../layout';
+
+// --- Schema ---
+
+export const STORAGE_SCHEMA_VERSION = 2;
+
+const SCHEMA_VERSION_KEY = 'multi_viictorn.schema_version';
+
+// Every key the app persists. Bump STORAGE_SCHEMA_VERSION and add a migration
+// instead of renaming a key, so saved setups survive upgrades.
+export const STORAGE_KEYS = {
+  roster: 'multi_viictorn.roster',
+  streamerStates: 'multi_viictorn.streamer_states',
+  layoutMode: 'multi_viictorn.layout_mode',
+  visibleStreamers: 'multi_viictorn.visible_streamers',
+  streamerOrder: 'multi_viictorn.streamer_order',
+  settings: 'multi_viictorn.settings',
+  audioFocus: 'multi_viictorn.audio_focus',
+  shortcuts: 'multi_viictorn.shortcuts',
+  recentCommands: 'multi_viictorn.recent_commands',
+  customLayouts: 'multi_viictorn.custom_layouts',
+  presets: 'multi_viictorn.presets',
+  chatWall: 'multi_viictorn.chat_wall',
+  chatDock: 'multi_viictorn.chat_dock',
+  chatOverlays: 'multi_viictorn.chat_overlays',
+} as const;
+
+// --- Validation ---
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const uniqueStrings = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((v, i): v is string => typeof v === 'string' && value.indexOf(v) === i)
+    : [];
+
+const clampPercent = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : fallback;
+
+const sanitizeStreamer = (value: unknown): StreamerConfig | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null;
+  if (typeof value.name !== 'string' || !isRecord(value.channels)) return null;
+
+  const platforms = getPlatformIds();
+  const channels: StreamerConfig['channels'] = {};
+  platforms.forEach(p => {
+    const channel = (value.channels as Record<string, unknown>)[p];
+    if (typeof channel === 'string') channels[p] = channel;
+  });
+
+  const configured = platforms.filter(p => channels[p]);
+  if (configured.length === 0) return null;
+
+  const defaultPlatform = isRegisteredPlatform(value.defaultPlatform) && channels[value.defaultPlatform]
+    ? value.defaultPlatform
+    : configured[0];
+
+  return {
+    id: value.id,
+    name: value.name,
+    avatarUrl: typeof value.avatarUrl === 'string' ? value.avatarUrl : '',
+    channels,
+    defaultPlatform,
+    color: typeof value.color === 'string' ? value.color : '#ffffff',
+  };
+};
+
+export const sanitizeRoster = (value: unknown): StreamerConfig[] => {
+  if (!Array.isArray(value)) return STREAMERS;
+  const seen = new Set<string>();
+  const roster = value
+    .map(sanitizeStreamer)
+    .filter((s): s is StreamerConfig => {
+      if (!s || seen.has(s.id)) return false;
+      seen.add(s.id);
+      return true;
+    });
+  return roster.length > 0 ? roster : STREAMERS;
+};
+
+// Drops unknown ids and appends streamers that are missing from the order
+export const sanitizeStreamerOrder = (value: unknown, roster: StreamerConfig[]): string[] => {
+  const ids = roster.map(s => s.id);
+  const order = uniqueStrings(value).filter(id => ids.includes(id));
+  return [...order, ...ids.filter(id => !order.includes(id))];
+};
+
+export const sanitizeVisibleStreamers = (value: unknown, roster: StreamerConfig[]): string[] => {
+  if (!Array.isArray(value)) return roster.map(s => s.id);
+  const ids = roster.map(s => s.id);
+  return uniqueStrings(value).filter(id => ids.includes(id));
+};
+
+// Players start muted; bare platform ids (schema v1) are still accepted, e.g. from old exports
+export const sanitizeStreamerStates = (value: unknown, roster: StreamerConfig[]): MultiStreamState => {
+  const stored = isRecord(value) ? value : {};
+  return roster.reduce((acc, s) => {
+    const entry = stored[s.id];
+    const platform = isRecord(entry) ? entry.platform : entry;
+    return {
+      ...acc,
+      [s.id]: {
+        platform: isRegisteredPlatform(platform) && s.channels[platform] ? platform : s.defaultPlatform,
+        isMuted: isRecord(entry) && typeof entry.isMuted === 'boolean' ? entry.isMuted : true,
+        volume: isRecord(entry) ? clampPercent(entry.volume, 100) : 100,
+      },
+    };
+  }, {} as MultiStreamState);
+};
+
+// Streamer whose audio is soloed, if it still exists
+export const sanitizeAudioFocus = (value: unknown, roster: StreamerConfig[]): string | null =>
+  typeof value === 'string' && roster.some(s => s.id === value) ? value : null;
+
+// Custom layout ids are only valid while that layout is still saved
+export const sanitizeLayoutMode = (value: unknown, customLayouts: LayoutDefinition[] = []): LayoutMode =>
+  isLayoutId(value, customLayouts) ? value : DEFAULT_LAYOUT_ID;
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const sanitizeLayoutRow = (value: unknown): CustomLayoutRow | null => {
+  if (!isRecord(value) || !isPositive(value.weight) || !Array.isArray(value.cells)) return null;
+  const cells = value.cells
+    .filter(isRecord)
+    .filter(c => Number.isInteger(c.slot) && (c.slot as number) >= 0 && isPositive(c.weight))
+    .map(c => ({ slot: c.slot as number, weight: c.weight as number }));
+  return cells.length > 0 ? { weight: value.weight, cells } : null;
+};
+
+// Drops layouts without a usable grid; ids must stay unique and prefixed
+export const sanitizeCustomLayouts = (value: unknown): LayoutDefinition[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.reduce((acc: LayoutDefinition[], entry) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !entry.id.startsWith(CUSTOM_LAYOUT_PREFIX)) return acc;
+    if (seen.has(entry.id) || typeof entry.label !== 'string' || !Array.isArray(entry.rows)) return acc;
+    const rows = entry.rows.map(sanitizeLayoutRow).filter((r): r is CustomLayoutRow => Boolean(r));
+    if (rows.length === 0) return acc;
+    seen.add(entry.id);
+    return [...acc, { id: entry.id, label: entry.label, kind: 'custom', rows }];
+  }, []);
+};
+
+// Outer bounds for the user-configurable chat size clamp (ChatDockSettings)
+export const CHAT_MIN_WIDTH = 240;
+export const CHAT_MAX_WIDTH = 1200;
+export const CHAT_MIN_HEIGHT = 160;
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+const clampChatWidth = (value: unknown, fallback: number) =>
+  clampNumber(value, CHAT_MIN_WIDTH, CHAT_MAX_WIDTH, fallback);
+
+// Keeps every valid field and only resets the broken ones
+export const sanitizeSettings = (value: unknown): AppSettings => {
+  const stored = isRecord(value) ? value : {};
+  const bool = (key: keyof AppSettings) =>
+    typeof stored[key] === 'boolean' ? stored[key] as boolean : DEFAULT_SETTINGS[key] as boolean;
+
+  const chatWidth = clampChatWidth(stored.chatWidth, DEFAULT_SETTINGS.chatWidth);
+
+  // Known platforms in the stored order, then any platform registered since
+  const priority = uniqueStrings(stored.failoverPriority).filter(isRegisteredPlatform);
+  const failoverPriority = [
+    ...(priority.length > 0 ? priority : DEFAULT_SETTINGS.failoverPriority),
+    ...getPlatformIds(),
+  ].filter((p, i, all) => all.indexOf(p) === i);
+
+  return {
+    performanceMode: bool('performanceMode'),
+    cinemaMode: bool('cinemaMode'),
+    streamsVisible: bool('streamsVisible'),
+    chatWidth,
+    duckOthers: bool('duckOthers'),
+    duckLevel: clampPercent(stored.duckLevel, DEFAULT_SETTINGS.duckLevel),
+    autoFailover: bool('autoFailover'),
+    failoverPriority,
+    spotlightStrip: stored.spotlightStrip === 'side' ? 'side' : 'bottom',
+  };
+};
+
+// Unknown actions fall back to their default key; a key bound twice stays with the first action
+export const sanitizeShortcuts = (value: unknown): ShortcutBindings => {
+  const stored = isRecord(value) ? value : {};
+  const taken = new Set<string>();
+  return SHORTCUT_ACTIONS.reduce((acc, { id }) => {
+    const key = typeof stored[id] === 'string' ? stored[id] as string : DEFAULT_SHORTCUTS[id];
+    const isFree = key !== '' && !taken.has(key);
+    if (isFree) taken.add(key);
+    return { ...acc, [id]: isFree ? key : '' };
+  }, {} as ShortcutBindings);
+};
+
+// Presets are re-checked against the roster and saved layouts, like the live setup
+export const sanitizePresets = (value: unknown, roster: StreamerConfig[], customLayouts: LayoutDefinition[] = []): WorkspacePreset[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.reduce((acc: WorkspacePreset[], entry) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !entry.id || seen.has(entry.id)) return acc;
+    if (typeof entry.name !== 'string' || !entry.name.trim()) return acc;
+    seen.add(entry.id);
+
+    const storedPlatforms = isRecord(entry.platforms) ? entry.platforms : {};
+    const platforms = roster.reduce((map, s) => {
+      const platform = storedPlatforms[s.id];
+      return { ...map, [s.id]: isRegisteredPlatform(platform) && s.channels[platform] ? platform : s.defaultPlatform };
+    }, {} as Record<string, PlatformId>);
+
+    return [...acc, {
+      id: entry.id,
+      name: entry.name,
+      visibleStreamers: sanitizeVisibleStreamers(entry.visibleStreamers, roster),
+      streamerOrder: sanitizeStreamerOrder(entry.streamerOrder, roster),
+      platforms,
+      layoutMode: sanitizeLayoutMode(entry.layoutMode, customLayouts),
+      isChatOpen: typeof entry.isChatOpen === 'boolean' ? entry.isChatOpen : true,
+      chatWidth: clampChatWidth(entry.chatWidth, DEFAULT_SETTINGS.chatWidth),
+      chatTab: typeof entry.chatTab === 'string' && roster.some(s => s.id === entry.chatTab) ? entry.chatTab : 'all',
+      cinemaMode: typeof entry.cinemaMode === 'boolean' ? entry.cinemaMode : DEFAULT_SETTINGS.cinemaMode,
+      performanceMode: typeof entry.performanceMode === 'boolean' ? entry.performanceMode : DEFAULT_SETTINGS.performanceMode,
+    }];
+  }, []);
+};
+
+export const CHAT_WALL_MIN_WIDTH = 240;
+export const CHAT_WALL_MAX_WIDTH = 1200;
+
+export const sanitizeChatWall = (value: unknown, roster: StreamerConfig[]): ChatWallLayout => {
+  const stored = isRecord(value) ? value : {};
+  const storedWidths = isRecord(stored.widths) ? stored.widths : {};
+  const widths = roster.reduce((acc, s) => {
+    const width = storedWidths[s.id];
+    return typeof width === 'number' && Number.isFinite(width)
+      ? { ...acc, [s.id]: Math.min(CHAT_WALL_MAX_WIDTH, Math.max(CHAT_WALL_MIN_WIDTH, Math.round(width))) }
+      : acc;
+  }, {} as Record<string, number>);
+  return { widths, collapsed: uniqueStrings(stored.collapsed).filter(id => roster.some(s => s.id === id)) };
+};
+
+const CHAT_DOCK_POSITIONS: ChatDockPosition[] = ['left', 'right', 'bottom', 'floating'];
+
+// The floating window is only kept inside the viewport at render time, since screens differ per session
+export const sanitizeChatDock = (value: unknown): ChatDockSettings => {
+  const stored = isRecord(value) ? value : {};
+  const floating = isRecord(stored.floating) ? stored.floating : {};
+  const minWidth = clampChatWidth(stored.minWidth, DEFAULT_CHAT_DOCK.minWidth);
+  const maxWidth = Math.max(minWidth, clampChatWidth(stored.maxWidth, DEFAULT_CHAT_DOCK.maxWidth));
+
+  return {
+    position: CHAT_DOCK_POSITIONS.includes(stored.position as ChatDockPosition) ? stored.position as ChatDockPosition : DEFAULT_CHAT_DOCK.position,
+    minWidth,
+    maxWidth,
+    height: clampNumber(stored.height, CHAT_MIN_HEIGHT, CHAT_MAX_WIDTH, DEFAULT_CHAT_DOCK.height),
+    floating: {
+      x: clampNumber(floating.x, 0, Number.MAX_SAFE_INTEGER, DEFAULT_CHAT_DOCK.floating.x),
+      y: clampNumber(floating.y, 0, Number.MAX_SAFE_INTEGER, DEFAULT_CHAT_DOCK.floating.y),
+      width: clampNumber(floating.width, minWidth, maxWidth, Math.min(maxWidth, Math.max(minWidth, DEFAULT_CHAT_DOCK.floating.width))),
+      height: clampNumber(floating.height, CHAT_MIN_HEIGHT, CHAT_MAX_WIDTH, DEFAULT_CHAT_DOCK.floating.height),
+    },
+  };
+};
+
+export const CHAT_OVERLAY_LIMITS = {
+  opacity: { min: 20, max: 100 },
+  width: { min: 20, max: 60 },
+  fontScale: { min: 50, max: 200 },
+};
+
+const CHAT_OVERLAY_CORNERS: ChatOverlayCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// Keyed by streamer ID; streamers without a stored entry use DEFAULT_CHAT_OVERLAY
+export const sanitizeChatOverlays = (value: unknown, roster: StreamerConfig[]): Record<string, ChatOverlaySettings> => {
+  const stored = isRecord(value) ? value : {};
+  return roster.reduce((acc, s) => {
+    const entry = stored[s.id];
+    if (!isRecord(entry)) return acc;
+    const limit = (key: keyof typeof CHAT_OVERLAY_LIMITS) =>
+      clampNumber(entry[key], CHAT_OVERLAY_LIMITS[key].min, CHAT_OVERLAY_LIMITS[key].max, DEFAULT_CHAT_OVERLAY[key]);
+    return {
+      ...acc,
+      [s.id]: {
+        enabled: typeof entry.enabled === 'boolean' ? entry.enabled : DEFAULT_CHAT_OVERLAY.enabled,
+        corner: CHAT_OVERLAY_CORNERS.includes(entry.corner as ChatOverlayCorner) ? entry.corner as ChatOverlayCorner : DEFAULT_CHAT_OVERLAY.corner,
+        opacity: limit('opacity'),
+        width: limit('width'),
+        fontScale: limit('fontScale'),
+      },
+    };
+  }, {} as Record<string, ChatOverlaySettings>);
+};
+
+export const sanitizeRecentCommands = (value: unknown): string[] =>
+  uniqueStrings(value).slice(0, MAX_RECENT_COMMANDS);
+
+// --- Raw Access ---
+
+const CORRUPT_SUFFIX = '.corrupt';
+
+/**
+ * Parses a stored key. Corrupt JSON is moved aside (kept under `<key>.corrupt`
+ * for inspection) so only that key falls back to its default.
+ */
+export const readStoredJson = (storage: Storage, key: string): unknown => {
+  const item = storage.getItem(key);
+  if (item === null) return undefined;
+  try {
+    return JSON.parse(item);
+  } catch (error) {
+    console.warn(`Corrupt localStorage key “${key}”, resetting it:`, error);
+    storage.setItem(`${key}${CORRUPT_SUFFIX}`, item);
+    storage.removeItem(key);
+    return undefined;
+  }
+};
+
+const writeStoredJson = (storage: Storage, key: string, value: unknown) => {
+  storage.setItem(key, JSON.stringify(value));
+};
+
+// --- Migrations ---
+
+// Builds the list of historical key names, newest first (e.g. layout_mode_v3 ... layout_mode)
+const legacyKeys = (base: string, latestVersion: number) => [
+  ...Array.from({ length: latestVersion }, (_, i) => `${base}_v${latestVersion - i}`),
+  base,
+];
+
+const LEGACY_KEYS: Record<keyof typeof STORAGE_KEYS, string[]> = {
+  roster: legacyKeys('streamer_roster', 1),
+  streamerStates: legacyKeys('multi_viictorn', 7),
+  layoutMode: legacyKeys('layout_mode', 3),
+  visibleStreamers: legacyKeys('visible_streamers', 2),
+  streamerOrder: legacyKeys('streamer_order', 1),
+  settings: legacyKeys('multi_settings', 3),
+  audioFocus: [], // Introduced after the namespaced schema
+  shortcuts: [],
+  recentCommands: [],
+  customLayouts: [],
+  presets: [],
+  chatWall: [],
+  chatDock: [],
+  chatOverlays: [],
+};
+
+interface Migration {
+  version: number;
+  migrate: (storage: Storage) => void;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // v1: move the ad-hoc versioned keys into the namespaced schema
+    version: 1,
+    migrate: (storage) => {
+      (Object.keys(LEGACY_KEYS) as (keyof typeof STORAGE_KEYS)[]).forEach(name => {
+        const target = STORAGE_KEYS[name];
+        LEGACY_KEYS[name].forEach(legacyKey => {
+          const item = storage.getItem(legacyKey);
+          if (item === null) return;
+          // Newest legacy key wins; older copies are only cleaned up
+          if (storage.getItem(target) === null) storage.setItem(target, item);
+          storage.removeItem(legacyKey);
+        });
+      });
+    },
+  },
+  {
+    // v2: streamer states hold { platform, isMuted } instead of a bare platform id
+    version: 2,
+    migrate: (storage) => {
+      const states = readStoredJson(storage, STORAGE_KEYS.streamerStates);
+      if (!isRecord(states)) return;
+      writeStoredJson(storage, STORAGE_KEYS.streamerStates, Object.fromEntries(
+        Object.entries(states).map(([id, state]) => [id, typeof state === 'string' ? { platform: state, isMuted: true } : state])
+      ));
+    },
+  },
+];
+
+const readSchemaVersion = (storage: Storage) => {
+  const version = Number(storage.getItem(SCHEMA_VERSION_KEY));
+  return Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/**
+ * Repairs persisted data in place against the current roster and settings
+ * shape, so stale ids or partially broken objects never reach the UI.
+ */
+export const repairStorage = (storage: Storage) => {
+  const rawRoster = readStoredJson(storage, STORAGE_KEYS.roster);
+  const roster = sanitizeRoster(rawRoster);
+  if (rawRoster !== undefined) writeStoredJson(storage, STORAGE_KEYS.roster, roster);
+
+  const rawLayouts = readStoredJson(storage, STORAGE_KEYS.customLayouts);
+  const customLayouts = sanitizeCustomLayouts(rawLayouts);
+  if (rawLayouts !== undefined) writeStoredJson(storage, STORAGE_KEYS.customLayouts, customLayouts);
+
+  const repairs: [string, (value: unknown) => unknown][] = [
+    [STORAGE_KEYS.streamerStates, (v) => sanitizeStreamerStates(v, roster)],
+    [STORAGE_KEYS.layoutMode, (v) => sanitizeLayoutMode(v, customLayouts)],
+    [STORAGE_KEYS.visibleStreamers, (v) => sanitizeVisibleStreamers(v, roster)],
+    [STORAGE_KEYS.streamerOrder, (v) => sanitizeStreamerOrder(v, roster)],
+    [STORAGE_KEYS.settings, sanitizeSettings],
+    [STORAGE_KEYS.audioFocus, (v) => sanitizeAudioFocus(v, roster)],
+    [STORAGE_KEYS.shortcuts, sanitizeShortcuts],
+    [STORAGE_KEYS.recentCommands, sanitizeRecentCommands],
+    [STORAGE_KEYS.presets, (v) => sanitizePresets(v, roster, customLayouts)],
+    [STORAGE_KEYS.chatWall, (v) => sanitizeChatWall(v, roster)],
+    [STORAGE_KEYS.chatDock, sanitizeChatDock],
+    [STORAGE_KEYS.chatOverlays, (v) => sanitizeChatOverlays(v, roster)],
+  ];
+
+  repairs.forEach(([key, sanitize]) => {
+    const value = readStoredJson(storage, key);
+    if (value !== undefined) writeStoredJson(storage, key, sanitize(value));
+  });
+};
+
+// Runs pending migrations and repairs stored data. Call once before rendering.
+export const migrateStorage = () => {
+  if (typeof window === 'undefined') return;
+  const storage = window.localStorage;
+
+  try {
+    const currentVersion = readSchemaVersion(storage);
+    if (currentVersion > STORAGE_SCHEMA_VERSION) {
+      // Data written by a newer build: leave it untouched rather than downgrading it
+      console.warn(`Stored schema v${currentVersion} is newer than this build (v${STORAGE_SCHEMA_VERSION}); skipping migrations.`);
+      return;
+    }
+
+    MIGRATIONS
+      .filter(m => m.version > currentVersion)
+      .sort((a, b) => a.version - b.version)
+      .forEach(m => {
+        m.migrate(storage);
+        storage.setItem(SCHEMA_VERSION_KEY, String(m.version));
+      });
+
+    repairStorage(storage);
+  } catch (error) {
+    console.warn('Error migrating localStorage:', error);
+  }
+};
@@ -1,18 +1,82 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin, Connect } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves public/samples/hls/<variant>/live.m3u8 as a looping live playlist over
+// the bundled VOD segments, so the native player can be tried against a "live" feed.
+const SAMPLE_SEGMENTS = 4;
+const SAMPLE_SEGMENT_SECONDS = 2;
+const SAMPLE_WINDOW = 3;
+
+const liveSamplePlaylist = (): Plugin => {
+  const handler: Connect.NextHandleFunction = (req, res, next) => {
+    const match = req.url?.match(/^\/samples\/hls\/([\w-]+)\/live\.m3u8(\?.*)?$/);
+    if (!match) return next();
+
+    const sequence = Math.floor(Date.now() / 1000 / SAMPLE_SEGMENT_SECONDS);
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      `#EXT-X-TARGETDURATION:${SAMPLE_SEGMENT_SECONDS}`,
+      `#EXT-X-MEDIA-SEQUENCE:${sequence}`,
+      // Every wrap back to the first segment is a timestamp discontinuity
+      `#EXT-X-DISCONTINUITY-SEQUENCE:${Math.floor(sequence / SAMPLE_SEGMENTS)}`,
+    ];
+    for (let i = 0; i < SAMPLE_WINDOW; i++) {
+      const segment = (sequence + i) % SAMPLE_SEGMENTS;
+      if (segment === 0 && i > 0) lines.push('#EXT-X-DISCONTINUITY');
+      lines.push(`#EXTINF:${SAMPLE_SEGMENT_SECONDS.toFixed(1)},`, `segment_${String(segment).padStart(2, '0')}.ts`);
+    }
+
+    res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(lines.join('\n') + '\n');
+  };
+
+  return {
+    name: 'live-sample-playlist',
+    configureServer: (server) => { server.middlewares.use(handler); },
+    configurePreviewServer: (server) => { server.middlewares.use(handler); },
+  };
+};
+
+// Twitch Helix calls go through the dev/preview server, which adds the app
+// credentials, so the token never reaches the browser bundle
+const TWITCH_PROXY_PATH = '/api/twitch';
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const hasTwitchCredentials = Boolean(env.TWITCH_CLIENT_ID && env.TWITCH_APP_TOKEN);
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Also used by `vite preview`
+        proxy: hasTwitchCredentials ? {
+          [TWITCH_PROXY_PATH]: {
+            target: 'https://api.twitch.tv/helix',
+            changeOrigin: true,
+            rewrite: (url) => url.slice(TWITCH_PROXY_PATH.length),
+            headers: { 'Client-Id': env.TWITCH_CLIENT_ID, Authorization: `Bearer ${env.TWITCH_APP_TOKEN}` },
+          },
+        } : undefined,
       },
-      plugins: [react()],
+      plugins: [react(), liveSamplePlaylist()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Live status providers (see services/liveStatus); all optional
+        'process.env.LIVE_STATUS_PROVIDER': JSON.stringify(env.LIVE_STATUS_PROVIDER || ''),
+        'process.env.LIVE_STATUS_MOCK_URL': JSON.stringify(env.LIVE_STATUS_MOCK_URL || ''),
+        // Helix base URL without credentials: a deployed proxy, or the server's own one
+        'process.env.TWITCH_HELIX_URL': JSON.stringify(env.TWITCH_HELIX_URL || (hasTwitchCredentials ? TWITCH_PROXY_PATH : '')),
+        // Ends up in the public bundle: only use a browser key restricted by HTTP referrer
+        'process.env.YOUTUBE_API_KEY': JSON.stringify(env.YOUTUBE_API_KEY || ''),
+        // Chat aggregator endpoints (see services/chat); empty means the real service
+        'process.env.TWITCH_CHAT_URL': JSON.stringify(env.TWITCH_CHAT_URL || ''),
+        'process.env.KICK_CHAT_URL': JSON.stringify(env.KICK_CHAT_URL || ''),
+        'process.env.KICK_CHAT_API_URL': JSON.stringify(env.KICK_CHAT_API_URL || ''),
+        'process.env.YOUTUBE_CHAT_API_URL': JSON.stringify(env.YOUTUBE_CHAT_API_URL || '')
       },
       resolve: {
         alias: {